@@ -5,21 +5,36 @@ import { createRoot } from "react-dom/client";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter } from "react-router-dom";
+import { BrowserRouter, Navigate, Route, Routes } from "react-router-dom";
 import AIAssistant from "./pages/AIAssistant";
+import Catalog from "./pages/Catalog";
+import { catalogQuery } from "./lib/catalog";
+import { restoredChatPath } from "./lib/conversations";
 
 const queryClient = new QueryClient();
 
+// Start loading the catalogue before the first component asks for it
+void queryClient.prefetchQuery(catalogQuery);
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <AIAssistant />
+        <Routes>
+          {/* Optional segments keep the page mounted while the id changes,
+              e.g. when the first question creates a conversation mid-stream */}
+          <Route path="/chat/:conversationId?" element={<AIAssistant />} />
+          <Route path="/katalog/:subjectId?" element={<Catalog />} />
+          <Route
+            path="*"
+            element={<Navigate to={restoredChatPath()} replace />}
+          />
+        </Routes>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
 );
 
-createRoot(document.getElementById("root")!).render(<App />);
\ No newline at end of file
+createRoot(document.getElementById("root")!).render(<App />);
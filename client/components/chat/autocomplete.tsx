@@ -0,0 +1,81 @@
+import { FileText, FolderOpen } from "lucide-react";
+import {
+  Command,
+  CommandGroup,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import type { Suggestion } from "@/lib/autocomplete";
+
+const NONE = "none";
+
+const SuggestionGroup = ({
+  heading,
+  suggestions,
+  onSelect,
+}: {
+  heading: string;
+  suggestions: Suggestion[];
+  onSelect: (suggestion: Suggestion) => void;
+}) =>
+  suggestions.length > 0 && (
+    <CommandGroup heading={heading}>
+      {suggestions.map((suggestion) => (
+        <CommandItem
+          key={suggestion.id}
+          value={suggestion.id}
+          onSelect={() => onSelect(suggestion)}
+          className="text-xs"
+        >
+          {suggestion.kind === "table" ? (
+            <FileText className="w-3 h-3 mr-2 flex-shrink-0 text-gray-500" />
+          ) : (
+            <FolderOpen className="w-3 h-3 mr-2 flex-shrink-0 text-gray-500" />
+          )}
+          <span className="line-clamp-2">{suggestion.label}</span>
+        </CommandItem>
+      ))}
+    </CommandGroup>
+  );
+
+/**
+ * Type-ahead list under the chat input. The textarea keeps focus, so the
+ * highlighted entry is controlled by the caller (see `useAutocomplete`).
+ */
+export const Autocomplete = ({
+  suggestions,
+  highlighted,
+  onHighlight,
+  onSelect,
+}: {
+  suggestions: Suggestion[];
+  highlighted: number;
+  onHighlight: (index: number) => void;
+  onSelect: (suggestion: Suggestion) => void;
+}) => (
+  <Command
+    shouldFilter={false}
+    // cmdk highlights the first entry when the value is empty; nothing is
+    // highlighted until the user moves to an entry, so Enter still sends
+    value={suggestions[highlighted]?.id ?? NONE}
+    onValueChange={(id) =>
+      onHighlight(suggestions.findIndex((suggestion) => suggestion.id === id))
+    }
+    // Keep the textarea focused when an entry is clicked
+    onMouseDown={(e) => e.preventDefault()}
+    className="mt-2 h-auto rounded-xl border border-gray-200"
+  >
+    <CommandList className="max-h-60">
+      <SuggestionGroup
+        heading="Tabel"
+        suggestions={suggestions.filter((s) => s.kind === "table")}
+        onSelect={onSelect}
+      />
+      <SuggestionGroup
+        heading="Batasi ke subjek"
+        suggestions={suggestions.filter((s) => s.kind === "subject")}
+        onSelect={onSelect}
+      />
+    </CommandList>
+  </Command>
+);
@@ -0,0 +1,228 @@
+import { CalendarDays, CalendarRange, X } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  describeFilters,
+  fromIsoDate,
+  toIsoDate,
+  type FilterChip,
+} from "@/lib/filters";
+import type { CatalogSubject } from "@shared/catalog";
+import { hasFilters, type CatalogFilters } from "@shared/filters";
+
+// Radix Select items cannot have an empty value
+const ALL = "all";
+
+const triggerClass = "h-8 w-auto max-w-[14rem] gap-1 text-xs";
+
+const chipLabel = (
+  filters: CatalogFilters,
+  id: FilterChip["id"],
+): string | undefined =>
+  describeFilters(filters, []).find((chip) => chip.id === id)?.label;
+
+const YearSelect = ({
+  value,
+  years,
+  placeholder,
+  onChange,
+}: {
+  value: number | undefined;
+  years: number[];
+  placeholder: string;
+  onChange: (year: number | undefined) => void;
+}) => (
+  <Select
+    value={value?.toString() ?? ALL}
+    onValueChange={(v) => onChange(v === ALL ? undefined : Number(v))}
+  >
+    <SelectTrigger className="h-8 w-28 text-xs">
+      <SelectValue placeholder={placeholder} />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={ALL}>{placeholder}</SelectItem>
+      {years.map((year) => (
+        <SelectItem key={year} value={year.toString()}>
+          {year}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+/**
+ * Filters applied to the next question: category, subject, the years the
+ * data covers and when the table was last updated.
+ */
+export const FilterBar = ({
+  filters,
+  onChange,
+  categories,
+  subjects,
+  years,
+  disabled = false,
+}: {
+  filters: CatalogFilters;
+  onChange: (filters: CatalogFilters) => void;
+  categories: string[];
+  subjects: CatalogSubject[];
+  years: number[];
+  disabled?: boolean;
+}) => {
+  const update = (patch: CatalogFilters) => onChange({ ...filters, ...patch });
+  const subjectOptions = filters.category
+    ? subjects.filter((subject) => subject.category === filters.category)
+    : subjects;
+  const updated: DateRange | undefined = filters.updatedFrom
+    ? {
+        from: fromIsoDate(filters.updatedFrom),
+        to: fromIsoDate(filters.updatedTo),
+      }
+    : undefined;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      <Select
+        value={filters.category ?? ALL}
+        onValueChange={(value) => {
+          const category = value === ALL ? undefined : value;
+          const subject = subjects.find((s) => s.id === filters.subjectId);
+          update({
+            category,
+            // A subject from another category would match nothing
+            subjectId:
+              category && subject && subject.category !== category
+                ? undefined
+                : filters.subjectId,
+          });
+        }}
+        disabled={disabled}
+      >
+        <SelectTrigger className={triggerClass}>
+          <SelectValue placeholder="Kategori" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Semua kategori</SelectItem>
+          {categories.map((category) => (
+            <SelectItem key={category} value={category}>
+              {category}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.subjectId?.toString() ?? ALL}
+        onValueChange={(value) =>
+          update({ subjectId: value === ALL ? undefined : Number(value) })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger className={triggerClass}>
+          <SelectValue placeholder="Subjek" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Semua subjek</SelectItem>
+          {subjectOptions.map((subject) => (
+            <SelectItem key={subject.id} value={subject.id.toString()}>
+              {subject.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs font-normal"
+            disabled={disabled}
+          >
+            <CalendarRange className="w-3 h-3 mr-1" />
+            {chipLabel(filters, "years") ?? "Tahun data"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-auto p-3">
+          <p className="text-xs text-gray-600 mb-2">
+            Tabel yang mencakup tahun
+          </p>
+          <div className="flex items-center gap-2">
+            <YearSelect
+              value={filters.yearFrom}
+              years={years.filter(
+                (year) =>
+                  filters.yearTo === undefined || year <= filters.yearTo,
+              )}
+              placeholder="Dari"
+              onChange={(yearFrom) => update({ yearFrom })}
+            />
+            <span className="text-xs text-gray-500">–</span>
+            <YearSelect
+              value={filters.yearTo}
+              years={years.filter(
+                (year) =>
+                  filters.yearFrom === undefined || year >= filters.yearFrom,
+              )}
+              placeholder="Sampai"
+              onChange={(yearTo) => update({ yearTo })}
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs font-normal"
+            disabled={disabled}
+          >
+            <CalendarDays className="w-3 h-3 mr-1" />
+            {chipLabel(filters, "updated") ?? "Tanggal pembaruan"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-auto p-0">
+          <Calendar
+            mode="range"
+            selected={updated}
+            defaultMonth={updated?.from}
+            onSelect={(range) =>
+              update({
+                updatedFrom: range?.from && toIsoDate(range.from),
+                updatedTo: range?.to && toIsoDate(range.to),
+              })
+            }
+          />
+        </PopoverContent>
+      </Popover>
+
+      {hasFilters(filters) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 text-xs text-gray-600"
+          onClick={() => onChange({})}
+          disabled={disabled}
+        >
+          <X className="w-3 h-3 mr-1" />
+          Hapus filter
+        </Button>
+      )}
+    </div>
+  );
+};
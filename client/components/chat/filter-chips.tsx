@@ -0,0 +1,38 @@
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { FilterChip } from "@/lib/filters";
+
+/**
+ * The filters an answer was retrieved with. Removing a chip asks again
+ * without that filter.
+ */
+export const FilterChips = ({
+  chips,
+  onRemove,
+  disabled = false,
+}: {
+  chips: FilterChip[];
+  onRemove: (chip: FilterChip) => void;
+  disabled?: boolean;
+}) => (
+  <div className="flex flex-wrap gap-1 mb-2">
+    {chips.map((chip) => (
+      <Badge
+        key={chip.id}
+        variant="secondary"
+        className="gap-1 pr-1 font-normal"
+      >
+        {chip.label}
+        <button
+          type="button"
+          className="rounded-full p-0.5 hover:bg-gray-200 disabled:opacity-50"
+          onClick={() => onRemove(chip)}
+          disabled={disabled}
+          aria-label={`Hapus filter ${chip.label}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </Badge>
+    ))}
+  </div>
+);
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { renderToStaticMarkup } from "react-dom/server";
+import { MarkdownContent } from "./markdown-content";
+
+const render = (content: string, isStreaming = false) =>
+  renderToStaticMarkup(
+    <MarkdownContent content={content} isStreaming={isStreaming} />,
+  );
+
+describe("MarkdownContent", () => {
+  it("should render bold text, lists and tables", () => {
+    const html = render(
+      "**Jumlah Penduduk**\n\n- a\n- b\n\n| Tahun | Jiwa |\n| --- | --- |\n| 2024 | 1 |",
+    );
+
+    expect(html).toContain("<strong>Jumlah Penduduk</strong>");
+    expect(html).toContain("<li>a</li>");
+    expect(html).toContain("<table>");
+  });
+
+  it("should open links in a new tab", () => {
+    expect(render("[BPS](https://medankota.bps.go.id)")).toContain(
+      'target="_blank"',
+    );
+  });
+
+  it("should not render raw HTML or script URLs", () => {
+    const html = render(
+      '<img src=x onerror="alert(1)"> [klik](javascript:alert(1))',
+    );
+
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain("javascript:");
+  });
+
+  it("should not show dangling markers while streaming", () => {
+    expect(render("Tabel **Rasio", true)).toContain("<strong>Rasio</strong>");
+  });
+});
@@ -0,0 +1,41 @@
+import ReactMarkdown, { Components } from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import { closePartialMarkdown } from "@/lib/markdown";
+
+const components: Components = {
+  a: ({ node, ...props }) => (
+    <a
+      {...props}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-600 hover:text-blue-800"
+    />
+  ),
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+/**
+ * Renders an assistant answer as GitHub-flavoured Markdown. Raw HTML is never
+ * rendered and the output is sanitised; while `isStreaming`, constructs cut
+ * off mid-answer are closed first.
+ */
+export const MarkdownContent = ({
+  content,
+  isStreaming = false,
+}: {
+  content: string;
+  isStreaming?: boolean;
+}) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm]}
+    rehypePlugins={[rehypeSanitize]}
+    components={components}
+  >
+    {isStreaming ? closePartialMarkdown(content) : content}
+  </ReactMarkdown>
+);
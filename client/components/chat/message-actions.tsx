@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Check, Copy, RefreshCw, ThumbsDown, ThumbsUp } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { toMarkdownWithSources, toPlainText } from "@/lib/messageActions";
+import { cn } from "@/lib/utils";
+import type { FeedbackRating, Message, MessageFeedback } from "@shared/api";
+
+const FeedbackButton = ({
+  rating,
+  current,
+  onSubmit,
+  disabled,
+}: {
+  rating: FeedbackRating;
+  current?: MessageFeedback;
+  onSubmit: (feedback: MessageFeedback) => void;
+  disabled: boolean;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [comment, setComment] = useState(current?.comment ?? "");
+  const Icon = rating === "up" ? ThumbsUp : ThumbsDown;
+  const isSelected = current?.rating === rating;
+
+  const submit = () => {
+    onSubmit({ rating, comment: comment.trim() || undefined });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "h-7 w-7 p-0 text-gray-500",
+            isSelected && "text-orange-600",
+          )}
+          disabled={disabled}
+          aria-label={
+            rating === "up" ? "Jawaban membantu" : "Jawaban kurang tepat"
+          }
+        >
+          <Icon className={cn("w-3.5 h-3.5", isSelected && "fill-current")} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <p className="text-sm font-medium text-gray-900">
+          {rating === "up"
+            ? "Apa yang membantu dari jawaban ini?"
+            : "Apa yang kurang tepat dari jawaban ini?"}
+        </p>
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Komentar (opsional)"
+          className="min-h-[80px] text-sm"
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+            onClick={submit}
+          >
+            Kirim
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/**
+ * Toolbar under an assistant answer: regenerate, copy and rating.
+ */
+export const MessageActions = ({
+  message,
+  onRegenerate,
+  onFeedback,
+  disabled,
+}: {
+  message: Message;
+  onRegenerate: () => void;
+  onFeedback: (feedback: MessageFeedback) => void;
+  disabled: boolean;
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      toast.error("Gagal menyalin ke clipboard");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 mt-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0 text-gray-500"
+        onClick={onRegenerate}
+        disabled={disabled}
+        aria-label="Buat ulang jawaban"
+        title="Buat ulang jawaban"
+      >
+        <RefreshCw className="w-3.5 h-3.5" />
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 text-gray-500"
+            aria-label="Salin jawaban"
+            title="Salin jawaban"
+          >
+            {copied ? (
+              <Check className="w-3.5 h-3.5" />
+            ) : (
+              <Copy className="w-3.5 h-3.5" />
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onSelect={() => copy(toPlainText(message.content))}>
+            Salin teks
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => copy(toMarkdownWithSources(message))}
+          >
+            Salin Markdown dengan sumber
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <FeedbackButton
+        rating="up"
+        current={message.feedback}
+        onSubmit={onFeedback}
+        disabled={disabled}
+      />
+      <FeedbackButton
+        rating="down"
+        current={message.feedback}
+        onSubmit={onFeedback}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
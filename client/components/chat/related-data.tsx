@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { ExternalLink, MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { formatIndonesianDate, type BPSDataItem } from "@shared/catalog";
+
+const PAGE_SIZE = 4;
+
+const formatDate = (item: BPSDataItem): string | null => {
+  if (item.last_updated) return formatIndonesianDate(item.last_updated);
+  const date = new Date(item.scraped_at);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+};
+
+const RelatedDataCard = ({
+  item,
+  onAsk,
+  disabled,
+}: {
+  item: BPSDataItem;
+  onAsk: (item: BPSDataItem) => void;
+  disabled: boolean;
+}) => {
+  const date = formatDate(item);
+
+  return (
+    <Card className="h-full flex flex-col rounded-xl shadow-none">
+      <CardHeader className="p-4 pb-2 space-y-2">
+        <Badge variant="secondary" className="w-fit font-normal">
+          {item.category}
+        </Badge>
+        <CardTitle className="text-sm font-semibold leading-snug line-clamp-3">
+          {item.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 flex-1 space-y-1">
+        <CardDescription className="text-xs line-clamp-2">
+          {item.parent_title || item.description}
+        </CardDescription>
+        {date && <p className="text-xs text-gray-500">Diperbarui {date}</p>}
+      </CardContent>
+      <CardFooter className="p-4 pt-0 gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 flex-1 text-xs"
+          onClick={() => onAsk(item)}
+          disabled={disabled}
+        >
+          <MessageSquare className="w-3 h-3 mr-1" />
+          Tanyakan
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 text-xs" asChild>
+          <a href={item.url} target="_blank" rel="noopener noreferrer">
+            <ExternalLink className="w-3 h-3 mr-1" />
+            Buka
+          </a>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+/**
+ * Strip of result cards for the tables related to an answer, revealed
+ * PAGE_SIZE at a time.
+ */
+export const RelatedData = ({
+  items,
+  onAsk,
+  disabled = false,
+}: {
+  items: BPSDataItem[];
+  onAsk: (item: BPSDataItem) => void;
+  disabled?: boolean;
+}) => {
+  const [visible, setVisible] = useState(PAGE_SIZE);
+  const shown = items.slice(0, visible);
+  const remaining = items.length - shown.length;
+
+  return (
+    <div className="mt-3 text-left">
+      <p className="text-xs font-medium text-gray-600 mb-2">
+        Tabel terkait ({items.length})
+      </p>
+      <Carousel opts={{ align: "start" }} className="relative">
+        <CarouselContent>
+          {shown.map((item) => (
+            <CarouselItem key={item.url} className="basis-4/5 sm:basis-1/2">
+              <RelatedDataCard item={item} onAsk={onAsk} disabled={disabled} />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {shown.length > 2 && (
+          <>
+            <CarouselPrevious className="left-1 h-7 w-7" />
+            <CarouselNext className="right-1 h-7 w-7" />
+          </>
+        )}
+      </Carousel>
+      {remaining > 0 && (
+        <Button
+          variant="link"
+          size="sm"
+          className="px-0 text-xs text-orange-600"
+          onClick={() => setVisible((v) => v + PAGE_SIZE)}
+        >
+          Tampilkan lebih banyak ({remaining})
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { ChevronDown, ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  describeConstraints,
+  describeTerms,
+  formatOptionalScore,
+  formatScore,
+  SEARCH_RULE_LABELS,
+  TITLE_MATCH_LABELS,
+} from "@/lib/searchDebug";
+import type { SearchDebug } from "@shared/api";
+
+/**
+ * Collapsible breakdown of how the catalogue search ranked the tables behind
+ * an answer; only shown in debug mode (`?debug=1`).
+ */
+export const SearchDebugPanel = ({ debug }: { debug: SearchDebug }) => {
+  const [open, setOpen] = useState(false);
+  const constraints = describeConstraints(debug.constraints);
+  const hybrid = debug.mode === "hybrid";
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="mt-3 rounded-xl border border-dashed border-gray-300 text-left text-xs"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-gray-600">
+        <ChevronDown
+          className={`w-3 h-3 transition-transform ${open ? "" : "-rotate-90"}`}
+        />
+        <span className="font-medium">Debug pencarian</span>
+        <Badge variant="outline" className="font-normal">
+          {hybrid ? "Hibrida" : "Kata"}
+        </Badge>
+        <span className="truncate">{SEARCH_RULE_LABELS[debug.rule]}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 px-3 pb-3">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-gray-600">
+          <dt>Pertanyaan</dt>
+          <dd className="text-gray-900">{debug.question}</dd>
+          {debug.expansions.length > 0 && (
+            <>
+              <dt>Sinonim</dt>
+              <dd className="text-gray-900">{debug.expansions.join(", ")}</dd>
+            </>
+          )}
+          {constraints && (
+            <>
+              <dt>Filter</dt>
+              <dd className="text-gray-900">{constraints}</dd>
+            </>
+          )}
+        </dl>
+        {debug.hits.length === 0 ? (
+          <p className="text-gray-500">Tidak ada tabel yang cocok.</p>
+        ) : (
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8 px-2">#</TableHead>
+                <TableHead className="h-8 px-2">Tabel</TableHead>
+                {hybrid && (
+                  <>
+                    <TableHead className="h-8 px-2 text-right">
+                      Gabungan
+                    </TableHead>
+                    <TableHead className="h-8 px-2 text-right">
+                      Vektor
+                    </TableHead>
+                  </>
+                )}
+                <TableHead className="h-8 px-2 text-right">
+                  {hybrid ? "Kata" : "Skor"}
+                </TableHead>
+                <TableHead className="h-8 px-2 text-right">Judul</TableHead>
+                <TableHead className="h-8 px-2 text-right">Kategori</TableHead>
+                <TableHead className="h-8 px-2 text-right">Deskripsi</TableHead>
+                <TableHead className="h-8 px-2 text-right">Urutan</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {debug.hits.map((hit, index) => (
+                <TableRow key={hit.url}>
+                  <TableCell className="p-2 align-top">{index + 1}</TableCell>
+                  <TableCell className="p-2 align-top space-y-1">
+                    <a
+                      href={hit.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-start gap-1 text-blue-600 hover:underline"
+                    >
+                      <ExternalLink className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      {hit.title}
+                    </a>
+                    <p className="text-gray-500">
+                      {TITLE_MATCH_LABELS[hit.titleMatch]}
+                      {hit.matchedTerms.length > 0 &&
+                        ` · ${describeTerms(hit)}`}
+                    </p>
+                  </TableCell>
+                  {hybrid && (
+                    <>
+                      <TableCell className="p-2 align-top text-right font-medium">
+                        {formatOptionalScore(hit.blendedScore)}
+                      </TableCell>
+                      <TableCell className="p-2 align-top text-right">
+                        {formatOptionalScore(hit.similarity)}
+                      </TableCell>
+                    </>
+                  )}
+                  <TableCell
+                    className={`p-2 align-top text-right ${hybrid ? "" : "font-medium"}`}
+                  >
+                    {formatScore(hit.score)}
+                  </TableCell>
+                  <TableCell className="p-2 align-top text-right">
+                    {formatScore(hit.fieldScores.title)}
+                  </TableCell>
+                  <TableCell className="p-2 align-top text-right">
+                    {formatScore(hit.fieldScores.category)}
+                  </TableCell>
+                  <TableCell className="p-2 align-top text-right">
+                    {formatScore(hit.fieldScores.description)}
+                  </TableCell>
+                  <TableCell className="p-2 align-top text-right">
+                    {hit.contiguousRun > 1
+                      ? `${hit.contiguousRun} kata (+${formatScore(hit.contiguousBonus)})`
+                      : "–"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
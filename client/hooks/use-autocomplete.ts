@@ -0,0 +1,81 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  buildSuggestions,
+  moveHighlight,
+  Suggestion,
+} from "@/lib/autocomplete";
+import { useCatalog } from "./use-catalog";
+import { useDebouncedValue } from "./use-debounced-value";
+
+const DEBOUNCE_MS = 200;
+
+/**
+ * Debounced type-ahead for the chat input. `onKeyDown` handles the arrow
+ * keys, Enter and Escape while the list is open and returns whether it
+ * consumed the key; `close(text)` hides the list until the input changes
+ * from `text`.
+ */
+export function useAutocomplete(
+  input: string,
+  enabled: boolean,
+  onSelect: (suggestion: Suggestion) => void,
+) {
+  const { items, subjects, synonyms } = useCatalog();
+  const query = useDebouncedValue(input, DEBOUNCE_MS);
+  const [dismissed, setDismissed] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const suggestions = useMemo(
+    () => (enabled ? buildSuggestions(items, subjects, query, synonyms) : []),
+    [enabled, items, subjects, query, synonyms],
+  );
+  useEffect(() => setHighlighted(-1), [suggestions]);
+
+  // Stale suggestions stay hidden while the user is still typing
+  const open = suggestions.length > 0 && query === input && input !== dismissed;
+
+  const close = (text = input) => setDismissed(text);
+
+  const select = (suggestion: Suggestion) => {
+    onSelect(suggestion);
+    setHighlighted(-1);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent): boolean => {
+    if (!open) return false;
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        e.preventDefault();
+        setHighlighted((index) =>
+          moveHighlight(
+            index,
+            suggestions.length,
+            e.key === "ArrowDown" ? 1 : -1,
+          ),
+        );
+        return true;
+      case "Escape":
+        e.preventDefault();
+        close();
+        return true;
+      case "Enter":
+        if (e.shiftKey || highlighted < 0) return false;
+        e.preventDefault();
+        select(suggestions[highlighted]);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  return {
+    open,
+    suggestions,
+    highlighted,
+    setHighlighted,
+    select,
+    close,
+    onKeyDown,
+  };
+}
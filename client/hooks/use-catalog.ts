@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { catalogQuery } from "@/lib/catalog";
+
+/**
+ * The BPS catalogue served by `/api/catalog`. `items` is empty until the
+ * first response arrives or when the request fails.
+ */
+export function useCatalog() {
+  const query = useQuery(catalogQuery);
+  return {
+    ...query,
+    items: query.data?.items ?? [],
+    categories: query.data?.categories ?? [],
+    subjects: query.data?.subjects ?? [],
+    synonyms: query.data?.synonyms ?? [],
+  };
+}
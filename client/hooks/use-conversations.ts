@@ -0,0 +1,169 @@
+import * as React from "react";
+import { toast } from "sonner";
+import { Conversation, Message } from "@shared/api";
+import {
+  ConversationState,
+  createId,
+  deleteRemoteConversation,
+  fetchRemoteConversations,
+  loadConversations,
+  mergeConversations,
+  saveConversations,
+  saveRemoteConversation,
+  titleFromQuestion,
+} from "@/lib/conversations";
+
+// Wait for a pause in updates (e.g. the end of a streamed answer) before
+// mirroring changes to the server
+const SYNC_DELAY_MS = 1000;
+
+type MessagesUpdater = (messages: Message[]) => Message[];
+
+/**
+ * Conversation list persisted to localStorage, with the id of the open
+ * conversation so a reload restores it. Changes are mirrored to
+ * /api/conversations when the server is reachable; localStorage keeps working
+ * on its own when it is not, and a failed push shows an error toast.
+ */
+export function useConversations() {
+  const [state, setState] = React.useState<ConversationState>(() =>
+    loadConversations(),
+  );
+
+  // Last updatedAt pushed to (or received from) the server, per conversation
+  const syncedRef = React.useRef(new Map<string, number>());
+  // Whether the last push failed, so one failing streak shows one error
+  const syncFailedRef = React.useRef(false);
+
+  React.useEffect(() => {
+    saveConversations(state);
+  }, [state]);
+
+  React.useEffect(() => {
+    fetchRemoteConversations()
+      .then((remote) => {
+        remote.forEach((c) =>
+          syncedRef.current.set(c.id, c.updatedAt.getTime()),
+        );
+        setState((prev) => ({
+          ...prev,
+          conversations: mergeConversations(prev.conversations, remote),
+        }));
+      })
+      .catch(() => {
+        // Server storage unavailable: stay local-only
+      });
+  }, []);
+
+  React.useEffect(() => {
+    const timer = window.setTimeout(() => {
+      for (const conv of state.conversations) {
+        const updatedAt = conv.updatedAt.getTime();
+        if (syncedRef.current.get(conv.id) === updatedAt) continue;
+
+        // A failed push is retried on the next change of the conversation,
+        // not on every render
+        syncedRef.current.set(conv.id, updatedAt);
+        saveRemoteConversation(conv)
+          .then(() => {
+            syncFailedRef.current = false;
+          })
+          .catch(() => {
+            if (syncFailedRef.current) return;
+            syncFailedRef.current = true;
+            toast.error(
+              "Percakapan gagal disimpan ke server. Percakapan tetap tersimpan di browser ini.",
+            );
+          });
+      }
+    }, SYNC_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [state.conversations]);
+
+  const activeConversation =
+    state.conversations.find((c) => c.id === state.activeId) ?? null;
+
+  /**
+   * Starts a conversation for the given first question and opens it.
+   */
+  const createConversation = React.useCallback((question: string) => {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: createId(),
+      title: titleFromQuestion(question),
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    setState((prev) => ({
+      conversations: [conversation, ...prev.conversations],
+      activeId: conversation.id,
+    }));
+    return conversation.id;
+  }, []);
+
+  /**
+   * Updates the messages of a conversation by id, so a streaming answer keeps
+   * landing in its own conversation even after the user switches away.
+   */
+  const updateMessages = React.useCallback(
+    (id: string, updater: MessagesUpdater) => {
+      setState((prev) => ({
+        ...prev,
+        conversations: prev.conversations.map((c) =>
+          c.id === id
+            ? { ...c, messages: updater(c.messages), updatedAt: new Date() }
+            : c,
+        ),
+      }));
+    },
+    [],
+  );
+
+  /**
+   * Shows the branch ending at `leafId` in a conversation.
+   */
+  const selectBranch = React.useCallback((id: string, leafId: string) => {
+    setState((prev) => ({
+      ...prev,
+      conversations: prev.conversations.map((c) =>
+        c.id === id ? { ...c, currentLeafId: leafId } : c,
+      ),
+    }));
+  }, []);
+
+  const openConversation = React.useCallback((id: string | null) => {
+    setState((prev) => ({ ...prev, activeId: id }));
+  }, []);
+
+  const renameConversation = React.useCallback((id: string, title: string) => {
+    setState((prev) => ({
+      ...prev,
+      conversations: prev.conversations.map((c) =>
+        c.id === id && title.trim() && title.trim() !== c.title
+          ? { ...c, title: title.trim(), updatedAt: new Date() }
+          : c,
+      ),
+    }));
+  }, []);
+
+  const deleteConversation = React.useCallback((id: string) => {
+    syncedRef.current.delete(id);
+    deleteRemoteConversation(id).catch(() => undefined);
+    setState((prev) => ({
+      conversations: prev.conversations.filter((c) => c.id !== id),
+      activeId: prev.activeId === id ? null : prev.activeId,
+    }));
+  }, []);
+
+  return {
+    conversations: state.conversations,
+    activeConversation,
+    createConversation,
+    updateMessages,
+    selectBranch,
+    openConversation,
+    renameConversation,
+    deleteConversation,
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { getCatalogSubjects } from "@shared/catalog";
+import { catalogItem } from "@shared/testing/catalog";
+import {
+  buildSuggestions,
+  getSubjectSuggestions,
+  moveHighlight,
+} from "./autocomplete";
+import { getSuggestions } from "./catalog";
+
+const table = (title: string, subject_id: number, parent_title: string) =>
+  catalogItem(title, { subject_id, description: parent_title, parent_title });
+
+const ITEMS = [
+  table(
+    "Jumlah Penduduk Kota Medan Menurut Kecamatan (Jiwa), 2010 - 2024",
+    519,
+    "Kependudukan dan Migrasi",
+  ),
+  table(
+    "Jumlah Penduduk Miskin (Ribu Jiwa), 2010 - 2024",
+    523,
+    "Konsumsi dan Pendapatan",
+  ),
+  table(
+    "Angka Partisipasi Kasar (APK) Kota Medan, 2020 - 2024",
+    521,
+    "Pendidikan",
+  ),
+  table(
+    "Angka Partisipasi Kasar (APK) Kota Medan, 2020 - 2024",
+    521,
+    "Pendidikan",
+  ),
+];
+const SUBJECTS = getCatalogSubjects(ITEMS);
+
+describe("getSuggestions", () => {
+  it("should complete a half-typed last word", () => {
+    expect(getSuggestions(ITEMS, "jumlah pendu")).toEqual([
+      "Jumlah Penduduk Kota Medan Menurut Kecamatan (Jiwa), 2010 - 2024",
+      "Jumlah Penduduk Miskin (Ribu Jiwa), 2010 - 2024",
+    ]);
+  });
+
+  it("should list each title once", () => {
+    expect(getSuggestions(ITEMS, "partisipasi")).toEqual([
+      "Angka Partisipasi Kasar (APK) Kota Medan, 2020 - 2024",
+    ]);
+  });
+
+  it("should wait for two characters", () => {
+    expect(getSuggestions(ITEMS, "p")).toEqual([]);
+  });
+});
+
+describe("getSubjectSuggestions", () => {
+  it("should match subject titles by prefix before table subjects", () => {
+    expect(
+      getSubjectSuggestions(SUBJECTS, ITEMS, "pendidi").map((s) => s.id),
+    ).toEqual([521]);
+    expect(
+      getSubjectSuggestions(SUBJECTS, ITEMS, "penduduk miskin").map(
+        (s) => s.id,
+      ),
+    ).toEqual([523, 519]);
+  });
+});
+
+describe("buildSuggestions", () => {
+  it("should list tables before subjects", () => {
+    const suggestions = buildSuggestions(ITEMS, SUBJECTS, "miskin");
+
+    expect(suggestions.map((s) => s.kind)).toEqual(["table", "subject"]);
+    expect(suggestions[1].label).toBe("Konsumsi dan Pendapatan");
+  });
+});
+
+describe("moveHighlight", () => {
+  it("should wrap around and start from either end", () => {
+    expect(moveHighlight(-1, 3, 1)).toBe(0);
+    expect(moveHighlight(-1, 3, -1)).toBe(2);
+    expect(moveHighlight(2, 3, 1)).toBe(0);
+    expect(moveHighlight(0, 3, -1)).toBe(2);
+    expect(moveHighlight(1, 0, 1)).toBe(-1);
+  });
+});
@@ -0,0 +1,85 @@
+import type { BPSDataItem, CatalogSubject } from "@shared/catalog";
+import { normalizeText } from "@shared/search";
+import type { SynonymEntry } from "@shared/synonyms";
+import { getSuggestions } from "./catalog";
+
+export const SUBJECT_SUGGESTION_LIMIT = 3;
+
+/** A type-ahead entry: a table title to ask about or a subject to scope to */
+export type Suggestion =
+  | { kind: "table"; id: string; label: string }
+  | { kind: "subject"; id: string; label: string; subject: CatalogSubject };
+
+/**
+ * Subjects for a partial query: those whose title contains every typed word
+ * (the last one as a prefix), then the subjects of the matching tables.
+ */
+export const getSubjectSuggestions = (
+  subjects: CatalogSubject[],
+  items: BPSDataItem[],
+  partialQuery: string,
+  synonyms: SynonymEntry[] = [],
+): CatalogSubject[] => {
+  const words = normalizeText(partialQuery).split(" ").filter(Boolean);
+  if (partialQuery.trim().length < 2 || words.length === 0) return [];
+
+  const byTitle = subjects.filter((subject) => {
+    const titleWords = normalizeText(subject.title).split(" ");
+    return words.every((word, i) =>
+      titleWords.some((titleWord) =>
+        i === words.length - 1
+          ? titleWord.startsWith(word)
+          : titleWord === word,
+      ),
+    );
+  });
+
+  const bySubject = new Map(subjects.map((subject) => [subject.id, subject]));
+  const byTables = getSuggestions(items, partialQuery, synonyms)
+    .map((title) => items.find((item) => item.title === title))
+    .map((item) => bySubject.get(item.subject_id))
+    .filter(Boolean);
+
+  return [...new Set([...byTitle, ...byTables])].slice(
+    0,
+    SUBJECT_SUGGESTION_LIMIT,
+  );
+};
+
+/** Table titles first, then subjects, for the chat input type-ahead */
+export const buildSuggestions = (
+  items: BPSDataItem[],
+  subjects: CatalogSubject[],
+  partialQuery: string,
+  synonyms: SynonymEntry[] = [],
+): Suggestion[] => [
+  ...getSuggestions(items, partialQuery, synonyms).map(
+    (title): Suggestion => ({
+      kind: "table",
+      id: `table:${title}`,
+      label: title,
+    }),
+  ),
+  ...getSubjectSuggestions(subjects, items, partialQuery, synonyms).map(
+    (subject): Suggestion => ({
+      kind: "subject",
+      id: `subject:${subject.id}`,
+      label: subject.title,
+      subject,
+    }),
+  ),
+];
+
+/**
+ * Moves the highlighted suggestion by `delta`, wrapping around; `-1` means
+ * nothing is highlighted.
+ */
+export const moveHighlight = (
+  index: number,
+  count: number,
+  delta: number,
+): number => {
+  if (count === 0) return -1;
+  if (index < 0) return delta > 0 ? 0 : count - 1;
+  return (index + delta + count) % count;
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { Message } from "@shared/api";
+import {
+  findLatestLeaf,
+  getActivePath,
+  getSiblings,
+  withParentLinks,
+} from "./branches";
+
+const message = (
+  id: string,
+  parentId: string | null,
+  type: Message["type"] = "user",
+): Message => ({
+  id,
+  parentId,
+  type,
+  content: id,
+  timestamp: new Date("2025-07-07T10:00:00Z"),
+});
+
+// q1 -> a1 -> q2  -> a2
+//          \> q2' -> a2'
+const tree = [
+  message("q1", null),
+  message("a1", "q1", "assistant"),
+  message("q2", "a1"),
+  message("a2", "q2", "assistant"),
+  message("q2'", "a1"),
+  message("a2'", "q2'", "assistant"),
+];
+
+describe("withParentLinks", () => {
+  it("should chain legacy messages in order", () => {
+    const legacy = tree.slice(0, 3).map(({ parentId, ...msg }) => msg);
+    expect(withParentLinks(legacy).map((msg) => msg.parentId)).toEqual([
+      null,
+      "q1",
+      "a1",
+    ]);
+  });
+});
+
+describe("getActivePath", () => {
+  it("should return the transcript of the selected branch", () => {
+    expect(getActivePath(tree, "a2").map((msg) => msg.id)).toEqual([
+      "q1",
+      "a1",
+      "q2",
+      "a2",
+    ]);
+  });
+
+  it("should default to the newest message", () => {
+    expect(getActivePath(tree, null).map((msg) => msg.id)).toEqual([
+      "q1",
+      "a1",
+      "q2'",
+      "a2'",
+    ]);
+    expect(getActivePath([], null)).toEqual([]);
+  });
+});
+
+describe("getSiblings", () => {
+  it("should list edits of the same message in creation order", () => {
+    expect(getSiblings(tree, tree[4]).map((msg) => msg.id)).toEqual([
+      "q2",
+      "q2'",
+    ]);
+    expect(getSiblings(tree, tree[0])).toHaveLength(1);
+  });
+});
+
+describe("findLatestLeaf", () => {
+  it("should follow the newest replies", () => {
+    expect(findLatestLeaf(tree, "q1")).toBe("a2'");
+    expect(findLatestLeaf(tree, "q2")).toBe("a2");
+    expect(findLatestLeaf(tree, "a2")).toBe("a2");
+  });
+});
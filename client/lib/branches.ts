@@ -0,0 +1,55 @@
+import type { Message } from "@shared/api";
+
+/**
+ * Links messages saved before branching existed into a single chain, each
+ * message replying to the one before it.
+ */
+export function withParentLinks(messages: Message[]): Message[] {
+  return messages.map((msg, index) =>
+    msg.parentId !== undefined
+      ? msg
+      : { ...msg, parentId: index === 0 ? null : messages[index - 1].id },
+  );
+}
+
+/**
+ * Messages from the root down to `leafId`, i.e. the transcript of one
+ * branch. Falls back to the newest message when the leaf is unknown.
+ */
+export function getActivePath(
+  messages: Message[],
+  leafId?: string | null,
+): Message[] {
+  const byId = new Map(messages.map((msg) => [msg.id, msg]));
+  let current = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+
+  const path: Message[] = [];
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Alternative versions of a message: those sharing its parent and type, in
+ * creation order. Always contains the message itself.
+ */
+export const getSiblings = (messages: Message[], message: Message) =>
+  messages.filter(
+    (msg) =>
+      (msg.parentId ?? null) === (message.parentId ?? null) &&
+      msg.type === message.type,
+  );
+
+/**
+ * Follows the newest reply from a message down to the end of its branch.
+ */
+export function findLatestLeaf(messages: Message[], fromId: string): string {
+  let leafId = fromId;
+  for (;;) {
+    const children = messages.filter((msg) => msg.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
@@ -0,0 +1,82 @@
+import type {
+  CatalogResponse,
+  CatalogSubjectResponse,
+  CatalogTableResponse,
+} from "@shared/api";
+import { BPSDataItem, searchCatalog } from "@shared/catalog";
+import { completeWord, getSearchIndex } from "@shared/search";
+import type { SynonymEntry } from "@shared/synonyms";
+
+// The server answers with an ETag and `Cache-Control: no-cache`, so the
+// browser revalidates these requests and gets a 304 while the data is unchanged.
+
+export async function fetchCatalog(): Promise<CatalogResponse> {
+  const res = await fetch("/api/catalog");
+  if (!res.ok) {
+    throw new Error(`Failed to load catalogue (${res.status})`);
+  }
+  return res.json();
+}
+
+export async function fetchCatalogSubject(
+  id: number,
+): Promise<CatalogSubjectResponse> {
+  const res = await fetch(`/api/catalog/subjects/${id}`);
+  if (!res.ok) {
+    throw new Error(`Failed to load subject ${id} (${res.status})`);
+  }
+  return res.json();
+}
+
+export async function fetchCatalogTable(
+  id: string,
+): Promise<CatalogTableResponse> {
+  const res = await fetch(`/api/catalog/tables/${encodeURIComponent(id)}`);
+  if (!res.ok) {
+    throw new Error(`Failed to load table ${id} (${res.status})`);
+  }
+  return res.json();
+}
+
+/** Query options shared by `useCatalog` and the prefetch in App.tsx */
+export const catalogQuery = {
+  queryKey: ["catalog"],
+  queryFn: fetchCatalog,
+  staleTime: 5 * 60 * 1000,
+} as const;
+
+export const catalogSubjectQuery = (id: number) => ({
+  queryKey: ["catalog", "subjects", id],
+  queryFn: () => fetchCatalogSubject(id),
+  staleTime: catalogQuery.staleTime,
+});
+
+export const catalogTableQuery = (id: string) => ({
+  queryKey: ["catalog", "tables", id],
+  queryFn: () => fetchCatalogTable(id),
+  staleTime: catalogQuery.staleTime,
+});
+
+/**
+ * Top five matching table titles for a partial query. A half-typed last
+ * word is completed from the catalogue vocabulary first, so "jumlah pendu"
+ * already finds the population tables.
+ */
+export const getSuggestions = (
+  items: BPSDataItem[],
+  partialQuery: string,
+  synonyms: SynonymEntry[] = [],
+): string[] => {
+  if (partialQuery.trim().length < 2) return [];
+
+  const lastWord = /(\S+)$/.exec(partialQuery)?.[1];
+  const completion = lastWord && completeWord(getSearchIndex(items), lastWord);
+  const query = completion
+    ? `${partialQuery.slice(0, -lastWord.length)}${completion}`
+    : partialQuery;
+
+  const titles = searchCatalog(items, query, synonyms).map(
+    (item) => item.title,
+  );
+  return [...new Set(titles)].slice(0, 5);
+};
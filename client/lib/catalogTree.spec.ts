@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { getCatalogSubjects } from "@shared/catalog";
+import { catalogItem } from "@shared/testing/catalog";
+import {
+  buildCatalogTree,
+  findSubjectNode,
+  scopedChatPath,
+} from "./catalogTree";
+
+const table = (
+  title: string,
+  subject_id: number,
+  parent_title: string,
+  category: string,
+  last_updated: string,
+) =>
+  catalogItem(title, {
+    category,
+    subject_id,
+    description: parent_title,
+    parent_title,
+    last_updated,
+  });
+
+const SOCIAL = "Statistik Demografi dan Sosial";
+const ECONOMY = "Statistik Ekonomi";
+
+const ITEMS = [
+  table(
+    "Jumlah Penduduk Kota Medan (Jiwa), 2010 - 2024",
+    519,
+    "Kependudukan dan Migrasi",
+    SOCIAL,
+    "2025-01-10",
+  ),
+  table(
+    "Rasio Jenis Kelamin Penduduk (Persen), 2001 - 2024",
+    519,
+    "Kependudukan dan Migrasi",
+    SOCIAL,
+    "2025-07-07",
+  ),
+  table(
+    "Jumlah Penduduk Miskin (Ribu Jiwa), 2010 - 2024",
+    523,
+    "Konsumsi dan Pendapatan",
+    SOCIAL,
+    "2025-07-09",
+  ),
+  table(
+    "Inflasi Bulanan Kota Medan, 2014 - 2024",
+    536,
+    "Harga-Harga",
+    ECONOMY,
+    "2025-01-09",
+  ),
+];
+const SUBJECTS = getCatalogSubjects(ITEMS);
+
+describe("buildCatalogTree", () => {
+  it("should group tables by category and subject", () => {
+    const tree = buildCatalogTree(ITEMS, SUBJECTS);
+
+    expect(tree.map((c) => [c.category, c.tableCount])).toEqual([
+      [SOCIAL, 3],
+      [ECONOMY, 1],
+    ]);
+    expect(tree[0].subjects.map((s) => s.subject.id)).toEqual([519, 523]);
+    expect(tree[0].subjects[0].lastUpdated).toBe("2025-07-07");
+  });
+
+  it("should sort subjects and tables by last update", () => {
+    const [social] = buildCatalogTree(ITEMS, SUBJECTS, { sort: "updated" });
+
+    expect(social.subjects.map((s) => s.subject.id)).toEqual([523, 519]);
+    expect(social.subjects[1].tables[0].title).toMatch(/^Rasio/);
+  });
+
+  it("should keep only matching tables when searching", () => {
+    const tree = buildCatalogTree(ITEMS, SUBJECTS, { query: "miskin" });
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].subjects.map((s) => s.subject.id)).toEqual([523]);
+  });
+
+  it("should keep every table of a subject whose title matches", () => {
+    const tree = buildCatalogTree(ITEMS, SUBJECTS, { query: "harga-harga" });
+
+    expect(findSubjectNode(tree, 536)?.tables).toHaveLength(1);
+    expect(findSubjectNode(tree, 519)).toBeNull();
+  });
+});
+
+describe("scopedChatPath", () => {
+  it("should pass the subject to the chat page", () => {
+    expect(scopedChatPath(519)).toBe("/chat?subject=519");
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  searchCatalog,
+  sortByRecency,
+  type BPSDataItem,
+  type CatalogSubject,
+} from "@shared/catalog";
+import { normalizeText } from "@shared/search";
+import type { SynonymEntry } from "@shared/synonyms";
+
+export type CatalogSort = "relevance" | "updated";
+
+export interface SubjectNode {
+  subject: CatalogSubject;
+  tables: BPSDataItem[];
+  /** Newest `last_updated` among `tables`, ISO `YYYY-MM-DD` */
+  lastUpdated: string | null;
+}
+
+export interface CategoryNode {
+  category: string;
+  subjects: SubjectNode[];
+  tableCount: number;
+}
+
+const newest = (tables: BPSDataItem[]): string | null =>
+  tables.reduce<string | null>(
+    (latest, table) =>
+      table.last_updated && table.last_updated > (latest ?? "")
+        ? table.last_updated
+        : latest,
+    null,
+  );
+
+const byUpdated = (a: SubjectNode, b: SubjectNode) =>
+  (b.lastUpdated ?? "").localeCompare(a.lastUpdated ?? "");
+
+/**
+ * Groups the catalogue into categories → subjects → tables for the catalogue
+ * page. With a query, only matching tables are kept (in relevance order, with
+ * subjects ordered by their best table) plus every table of a subject whose
+ * title matches; empty subjects and categories are dropped. The `updated` sort puts the most recently updated
+ * subjects and tables first.
+ */
+export const buildCatalogTree = (
+  items: BPSDataItem[],
+  subjects: CatalogSubject[],
+  {
+    query = "",
+    sort = "relevance",
+    synonyms = [],
+  }: { query?: string; sort?: CatalogSort; synonyms?: SynonymEntry[] } = {},
+): CategoryNode[] => {
+  const searching = query.trim().length >= 2;
+  const normalizedQuery = normalizeText(query);
+  const matched = searching ? searchCatalog(items, query, synonyms) : items;
+
+  const categories = new Map<string, CategoryNode>();
+  for (const subject of subjects) {
+    const own = items.filter((item) => item.subject_id === subject.id);
+    const tables =
+      searching && normalizeText(subject.title).includes(normalizedQuery)
+        ? own
+        : matched.filter((item) => item.subject_id === subject.id);
+    if (tables.length === 0) continue;
+
+    let category = categories.get(subject.category);
+    if (!category) {
+      category = { category: subject.category, subjects: [], tableCount: 0 };
+      categories.set(subject.category, category);
+    }
+    category.subjects.push({
+      subject,
+      tables: sort === "updated" ? sortByRecency(tables) : tables,
+      lastUpdated: newest(tables),
+    });
+    category.tableCount += tables.length;
+  }
+
+  const tree = [...categories.values()];
+  if (sort === "updated") {
+    tree.forEach((category) => category.subjects.sort(byUpdated));
+  } else if (searching) {
+    // Subjects follow their best-ranked table; title-only matches go last
+    const rank = new Map(matched.map((item, i) => [item, i]));
+    const best = (node: SubjectNode) =>
+      Math.min(...node.tables.map((table) => rank.get(table) ?? matched.length));
+    tree.forEach((category) =>
+      category.subjects.sort((a, b) => best(a) - best(b)),
+    );
+  }
+  return tree;
+};
+
+/** The node of a subject in the tree, or `null` when it is filtered out */
+export const findSubjectNode = (
+  tree: CategoryNode[],
+  subjectId: number,
+): SubjectNode | null =>
+  tree
+    .flatMap((category) => category.subjects)
+    .find((node) => node.subject.id === subjectId) ?? null;
+
+/** Chat URL that starts a conversation scoped to a subject */
+export const scopedChatPath = (subjectId: number): string =>
+  `/chat?subject=${subjectId}`;
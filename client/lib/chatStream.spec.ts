@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { parseSseEvents } from "./chatStream";
+
+describe("parseSseEvents", () => {
+  it("should parse complete events and keep the partial remainder", () => {
+    const { events, rest } = parseSseEvents(
+      'event: token\ndata: {"type":"token","text":"Halo "}\n\n' +
+        'event: token\ndata: {"type":"tok',
+    );
+
+    expect(events).toEqual([{ type: "token", text: "Halo " }]);
+    expect(rest).toBe('event: token\ndata: {"type":"tok');
+  });
+
+  it("should handle CRLF line endings", () => {
+    const { events, rest } = parseSseEvents(
+      'event: done\r\ndata: {"type":"done"}\r\n\r\n',
+    );
+
+    expect(events).toEqual([{ type: "done" }]);
+    expect(rest).toBe("");
+  });
+});
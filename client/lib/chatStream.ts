@@ -0,0 +1,67 @@
+import { ChatRequest, ChatStreamEvent } from "@shared/api";
+
+/**
+ * Splits a buffer of Server-Sent Events text into complete events and the
+ * trailing partial chunk that still needs more data.
+ */
+export function parseSseEvents(buffer: string): {
+  events: ChatStreamEvent[];
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: ChatStreamEvent[] = [];
+
+  for (const block of blocks) {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (data) {
+      events.push(JSON.parse(data) as ChatStreamEvent);
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Posts the conversation to /api/chat/stream and invokes `onEvent` for every
+ * event as it arrives. Rejects with an AbortError when `signal` is aborted.
+ */
+export async function streamChat(
+  request: ChatRequest,
+  onEvent: (event: ChatStreamEvent) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const res = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    throw new Error(`Chat request failed with status ${res.status}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const { events, rest } = parseSseEvents(buffer);
+    buffer = rest;
+    events.forEach(onEvent);
+  }
+
+  const { events } = parseSseEvents(buffer + "\n\n");
+  events.forEach(onEvent);
+}
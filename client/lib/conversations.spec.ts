@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { Conversation } from "@shared/api";
+import {
+  chatPath,
+  groupConversationsByDay,
+  loadConversations,
+  matchesSearch,
+  mergeConversations,
+  restoredChatPath,
+  saveConversations,
+  titleFromQuestion,
+} from "./conversations";
+
+const memoryStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    get length() {
+      return data.size;
+    },
+    clear: () => data.clear(),
+    getItem: (key) => data.get(key) ?? null,
+    key: (index) => Array.from(data.keys())[index] ?? null,
+    removeItem: (key) => data.delete(key),
+    setItem: (key, value) => data.set(key, value),
+  };
+};
+
+const conversation = (id: string, updatedAt: Date): Conversation => ({
+  id,
+  title: `Percakapan ${id}`,
+  createdAt: updatedAt,
+  updatedAt,
+  messages: [
+    {
+      id: `${id}-1`,
+      parentId: null,
+      type: "assistant",
+      content: "Jumlah penduduk [1]",
+      timestamp: updatedAt,
+      sources: [{ title: "Tabel", url: "https://medankota.bps.go.id" }],
+    },
+  ],
+});
+
+describe("loadConversations", () => {
+  it("should restore the saved state with dates and sources", () => {
+    const storage = memoryStorage();
+    const saved = conversation("a", new Date("2025-07-07T10:00:00"));
+    saveConversations({ conversations: [saved], activeId: "a" }, storage);
+
+    const { conversations, activeId } = loadConversations(storage);
+    expect(activeId).toBe("a");
+    expect(conversations[0]).toEqual(saved);
+    expect(conversations[0].messages[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it("should ignore corrupt data and unknown active ids", () => {
+    const storage = memoryStorage();
+    storage.setItem("statmedan.conversations", "{not json");
+    expect(loadConversations(storage)).toEqual({
+      conversations: [],
+      activeId: null,
+    });
+
+    saveConversations({ conversations: [], activeId: "missing" }, storage);
+    expect(loadConversations(storage).activeId).toBeNull();
+  });
+});
+
+describe("restoredChatPath", () => {
+  it("should reopen the conversation that was open last", () => {
+    const storage = memoryStorage();
+    const saved = conversation("a", new Date("2025-07-07T10:00:00"));
+    saveConversations({ conversations: [saved], activeId: "a" }, storage);
+
+    expect(restoredChatPath(storage)).toBe("/chat/a");
+  });
+
+  it("should start a new chat when none was open", () => {
+    expect(restoredChatPath(memoryStorage())).toBe("/chat");
+    expect(chatPath(null)).toBe("/chat");
+  });
+});
+
+describe("groupConversationsByDay", () => {
+  it("should group by last update, newest first", () => {
+    const now = new Date("2025-07-07T12:00:00");
+    const groups = groupConversationsByDay(
+      [
+        conversation("old", new Date("2025-07-01T09:00:00")),
+        conversation("today", new Date("2025-07-07T08:00:00")),
+        conversation("yesterday", new Date("2025-07-06T23:00:00")),
+        conversation("today-2", new Date("2025-07-07T11:00:00")),
+      ],
+      now,
+    );
+
+    expect(groups.map((g) => g.label).slice(0, 2)).toEqual([
+      "Hari ini",
+      "Kemarin",
+    ]);
+    expect(groups[0].conversations.map((c) => c.id)).toEqual([
+      "today-2",
+      "today",
+    ]);
+    expect(groups).toHaveLength(3);
+  });
+});
+
+describe("matchesSearch", () => {
+  it("should match titles and message contents", () => {
+    const conv = conversation("a", new Date());
+    expect(matchesSearch(conv, "PERCAKAPAN")).toBe(true);
+    expect(matchesSearch(conv, "penduduk")).toBe(true);
+    expect(matchesSearch(conv, "inflasi")).toBe(false);
+  });
+});
+
+describe("titleFromQuestion", () => {
+  it("should collapse whitespace and shorten long questions", () => {
+    expect(titleFromQuestion("  jumlah   penduduk ")).toBe("jumlah penduduk");
+    expect(titleFromQuestion("a".repeat(100))).toHaveLength(60);
+  });
+});
+
+describe("mergeConversations", () => {
+  it("should keep the most recently updated copy of each conversation", () => {
+    const older = conversation("a", new Date("2025-07-01T09:00:00"));
+    const newer = { ...older, title: "Baru", updatedAt: new Date() };
+    const remoteOnly = conversation("b", new Date("2025-07-02T09:00:00"));
+
+    const merged = mergeConversations([newer], [older, remoteOnly]);
+    expect(merged.map((c) => c.title)).toEqual(["Baru", "Percakapan b"]);
+    expect(mergeConversations([older], [newer])[0].title).toBe("Baru");
+  });
+});
@@ -0,0 +1,185 @@
+import type {
+  Conversation,
+  ConversationListResponse,
+  Message,
+} from "@shared/api";
+import { withParentLinks } from "./branches";
+
+export interface ConversationState {
+  conversations: Conversation[];
+  activeId: string | null;
+}
+
+const STORAGE_KEY = "statmedan.conversations";
+const TITLE_MAX_LENGTH = 60;
+
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Uses the first question as the conversation title, shortened for the
+ * sidebar.
+ */
+export const titleFromQuestion = (question: string): string => {
+  const title = question.trim().replace(/\s+/g, " ");
+  return title.length > TITLE_MAX_LENGTH
+    ? `${title.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : title;
+};
+
+const reviveMessage = (msg: Message): Message => ({
+  ...msg,
+  timestamp: new Date(msg.timestamp),
+});
+
+const reviveConversation = (conv: Conversation): Conversation => ({
+  ...conv,
+  createdAt: new Date(conv.createdAt),
+  updatedAt: new Date(conv.updatedAt),
+  messages: withParentLinks(conv.messages.map(reviveMessage)),
+});
+
+/** Chat page URL of a conversation, or of a new chat */
+export const chatPath = (id: string | null): string =>
+  id ? `/chat/${id}` : "/chat";
+
+/**
+ * Where a bare `/` or `/chat` leads: the conversation that was open before
+ * the page was reloaded, or a new chat.
+ */
+export const restoredChatPath = (
+  storage: Storage = window.localStorage,
+): string => chatPath(loadConversations(storage).activeId);
+
+/**
+ * Reads the saved conversations from localStorage. Dates are stored as ISO
+ * strings by JSON.stringify and turned back into Date objects here.
+ */
+export function loadConversations(
+  storage: Storage = window.localStorage,
+): ConversationState {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return { conversations: [], activeId: null };
+
+    const parsed = JSON.parse(raw) as ConversationState;
+    const conversations = parsed.conversations.map(reviveConversation);
+    const activeId = conversations.some((c) => c.id === parsed.activeId)
+      ? parsed.activeId
+      : null;
+    return { conversations, activeId };
+  } catch {
+    return { conversations: [], activeId: null };
+  }
+}
+
+export function saveConversations(
+  state: ConversationState,
+  storage: Storage = window.localStorage,
+): void {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Storage full or unavailable (private mode): keep working in memory
+  }
+}
+
+/**
+ * Case-insensitive match on the title and message contents.
+ */
+export const matchesSearch = (conv: Conversation, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return (
+    conv.title.toLowerCase().includes(q) ||
+    conv.messages.some((msg) => msg.content.toLowerCase().includes(q))
+  );
+};
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayLabel = (date: Date, now: Date): string => {
+  const diff = Math.round((startOfDay(now) - startOfDay(date)) / DAY_MS);
+  if (diff === 0) return "Hari ini";
+  if (diff === 1) return "Kemarin";
+  return date.toLocaleDateString("id-ID", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+};
+
+/**
+ * Groups conversations by the day they were last updated, newest first.
+ */
+export function groupConversationsByDay(
+  conversations: Conversation[],
+  now: Date = new Date(),
+): Array<{ label: string; conversations: Conversation[] }> {
+  const sorted = [...conversations].sort(
+    (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+  );
+
+  const groups: Array<{ label: string; conversations: Conversation[] }> = [];
+  for (const conv of sorted) {
+    const label = dayLabel(conv.updatedAt, now);
+    const group = groups[groups.length - 1];
+    if (group?.label === label) {
+      group.conversations.push(conv);
+    } else {
+      groups.push({ label, conversations: [conv] });
+    }
+  }
+  return groups;
+}
+
+/**
+ * Merges the server copy into the local list, keeping whichever version of a
+ * conversation was updated last.
+ */
+export function mergeConversations(
+  local: Conversation[],
+  remote: Conversation[],
+): Conversation[] {
+  const merged = new Map(local.map((c) => [c.id, c]));
+  for (const conv of remote) {
+    const current = merged.get(conv.id);
+    if (!current || conv.updatedAt > current.updatedAt) {
+      merged.set(conv.id, conv);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+export async function fetchRemoteConversations(): Promise<Conversation[]> {
+  const res = await fetch("/api/conversations");
+  if (!res.ok) {
+    throw new Error(`Failed to load conversations (${res.status})`);
+  }
+  const data: ConversationListResponse = await res.json();
+  return data.conversations.map(reviveConversation);
+}
+
+export async function saveRemoteConversation(
+  conversation: Conversation,
+): Promise<void> {
+  const res = await fetch(`/api/conversations/${conversation.id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(conversation),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to save conversation (${res.status})`);
+  }
+}
+
+export async function deleteRemoteConversation(id: string): Promise<void> {
+  const res = await fetch(`/api/conversations/${id}`, { method: "DELETE" });
+  if (!res.ok && res.status !== 404) {
+    throw new Error(`Failed to delete conversation (${res.status})`);
+  }
+}
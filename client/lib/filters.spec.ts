@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import type { CatalogSubject } from "@shared/catalog";
+import { catalogItem } from "@shared/testing/catalog";
+import {
+  describeFilters,
+  fromIsoDate,
+  getCatalogYears,
+  removeFilter,
+  toIsoDate,
+} from "./filters";
+
+const table = (title: string) => catalogItem(title);
+
+const SUBJECTS: CatalogSubject[] = [
+  {
+    id: 519,
+    title: "Kependudukan dan Migrasi",
+    category: "Statistik Demografi dan Sosial",
+    url: "https://example.test/519",
+    tableCount: 2,
+    lastUpdated: null,
+  },
+];
+
+describe("getCatalogYears", () => {
+  it("should list every year between the oldest and newest coverage", () => {
+    expect(
+      getCatalogYears([
+        table("Jumlah Penduduk Kota Medan (Jiwa), 2020 - 2022"),
+        table("Gini Ratio , 2019"),
+        table("Luas Wilayah Kota Medan"),
+      ]),
+    ).toEqual([2022, 2021, 2020, 2019]);
+    expect(getCatalogYears([])).toEqual([]);
+  });
+});
+
+describe("toIsoDate", () => {
+  it("should round-trip local calendar days", () => {
+    expect(toIsoDate(new Date(2025, 0, 5))).toBe("2025-01-05");
+    expect(toIsoDate(fromIsoDate("2024-12-31"))).toBe("2024-12-31");
+    expect(fromIsoDate(undefined)).toBeUndefined();
+  });
+});
+
+describe("describeFilters", () => {
+  it("should make one chip per filter with ranges combined", () => {
+    const chips = describeFilters(
+      {
+        category: "Statistik Ekonomi",
+        subjectId: 519,
+        yearFrom: 2015,
+        yearTo: 2020,
+        updatedFrom: "2025-01-01",
+      },
+      SUBJECTS,
+    );
+
+    expect(chips.map((chip) => chip.label)).toEqual([
+      "Statistik Ekonomi",
+      "Kependudukan dan Migrasi",
+      "Tahun 2015–2020",
+      "Diperbarui sejak 1 Januari 2025",
+    ]);
+    expect(describeFilters(undefined, SUBJECTS)).toEqual([]);
+  });
+
+  it("should fall back to the subject id when the subject is unknown", () => {
+    expect(describeFilters({ subjectId: 999 }, [])[0].label).toBe("Subjek 999");
+  });
+});
+
+describe("removeFilter", () => {
+  it("should clear every key of the chip", () => {
+    const filters = {
+      category: "Statistik Ekonomi",
+      yearFrom: 2015,
+      yearTo: 2020,
+    };
+    const [, years] = describeFilters(filters, SUBJECTS);
+
+    expect(removeFilter(filters, years)).toEqual({
+      category: "Statistik Ekonomi",
+    });
+  });
+});
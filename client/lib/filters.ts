@@ -0,0 +1,106 @@
+import {
+  formatIndonesianDate,
+  getTitleInfo,
+  type BPSDataItem,
+  type CatalogSubject,
+} from "@shared/catalog";
+import type { CatalogFilterKey, CatalogFilters } from "@shared/filters";
+
+/** A removable chip for one filter; year and date ranges are one chip each */
+export interface FilterChip {
+  id: "category" | "subject" | "years" | "updated";
+  label: string;
+  /** Filter keys cleared when the chip is removed */
+  keys: CatalogFilterKey[];
+}
+
+/** Earliest and latest year covered by any table title, newest first */
+export const getCatalogYears = (items: BPSDataItem[]): number[] => {
+  const years = new Set<number>();
+  for (const item of items) {
+    const { startYear, endYear } = getTitleInfo(item);
+    if (startYear !== null) years.add(startYear);
+    if (endYear !== null) years.add(endYear);
+  }
+  if (years.size === 0) return [];
+
+  const min = Math.min(...years);
+  const max = Math.max(...years);
+  return Array.from({ length: max - min + 1 }, (_, i) => max - i);
+};
+
+/** `Date` to the ISO `YYYY-MM-DD` of its local calendar day */
+export const toIsoDate = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+/** ISO `YYYY-MM-DD` to a local `Date`, for the calendar */
+export const fromIsoDate = (isoDate: string | undefined): Date | undefined => {
+  if (!isoDate) return undefined;
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatRange = (
+  from: string | undefined,
+  to: string | undefined,
+): string => {
+  if (from && to) return from === to ? from : `${from}–${to}`;
+  return from ? `sejak ${from}` : `sampai ${to}`;
+};
+
+/** Chips for the active filters, in filter-bar order */
+export const describeFilters = (
+  filters: CatalogFilters | undefined,
+  subjects: CatalogSubject[],
+): FilterChip[] => {
+  if (!filters) return [];
+  const chips: FilterChip[] = [];
+
+  if (filters.category) {
+    chips.push({ id: "category", label: filters.category, keys: ["category"] });
+  }
+  if (filters.subjectId !== undefined) {
+    const subject = subjects.find((s) => s.id === filters.subjectId);
+    chips.push({
+      id: "subject",
+      label: subject?.title ?? `Subjek ${filters.subjectId}`,
+      keys: ["subjectId"],
+    });
+  }
+  if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+    chips.push({
+      id: "years",
+      label: `Tahun ${formatRange(
+        filters.yearFrom?.toString(),
+        filters.yearTo?.toString(),
+      )}`,
+      keys: ["yearFrom", "yearTo"],
+    });
+  }
+  if (filters.updatedFrom || filters.updatedTo) {
+    chips.push({
+      id: "updated",
+      label: `Diperbarui ${formatRange(
+        filters.updatedFrom && formatIndonesianDate(filters.updatedFrom),
+        filters.updatedTo && formatIndonesianDate(filters.updatedTo),
+      )}`,
+      keys: ["updatedFrom", "updatedTo"],
+    });
+  }
+
+  return chips;
+};
+
+/** `filters` without the keys of `chip`; unset keys are dropped entirely */
+export const removeFilter = (
+  filters: CatalogFilters,
+  chip: FilterChip,
+): CatalogFilters => {
+  const next = { ...filters };
+  chip.keys.forEach((key) => delete next[key]);
+  return next;
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { closePartialMarkdown } from "./markdown";
+
+describe("closePartialMarkdown", () => {
+  it("should leave complete Markdown untouched", () => {
+    const text = "**Jumlah Penduduk** [1]\n\n- a\n- b\n\n`kode`";
+    expect(closePartialMarkdown(text)).toBe(text);
+  });
+
+  it("should close unterminated bold and inline code", () => {
+    expect(closePartialMarkdown("Tabel **Rasio Jenis")).toBe(
+      "Tabel **Rasio Jenis**",
+    );
+    expect(closePartialMarkdown("nilai `SP20")).toBe("nilai `SP20`");
+  });
+
+  it("should drop a dangling opening marker", () => {
+    expect(closePartialMarkdown("Berikut tabelnya: **")).toBe(
+      "Berikut tabelnya:",
+    );
+  });
+
+  it("should close an open code fence", () => {
+    expect(closePartialMarkdown("```\nkode")).toBe("```\nkode\n```");
+  });
+
+  it("should hide a link whose URL is incomplete", () => {
+    expect(closePartialMarkdown("Lihat [portal BPS](https://medank")).toBe(
+      "Lihat portal BPS",
+    );
+  });
+});
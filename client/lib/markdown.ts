@@ -0,0 +1,33 @@
+/**
+ * Closes Markdown constructs left open by a partially streamed answer so the
+ * renderer does not flash literal markers or swallow the rest of the text
+ * into a code block. Only used while the answer is still streaming.
+ */
+export function closePartialMarkdown(text: string): string {
+  let result = text;
+
+  // Unterminated fenced code block
+  const fences = result.match(/^```/gm)?.length ?? 0;
+  if (fences % 2 === 1) {
+    return `${result}\n\`\`\``;
+  }
+
+  // A link whose URL is still arriving: show just its text for now
+  result = result.replace(/\[([^\]\n]*)\]\([^)\n]*$/, "$1");
+
+  // Inline code, then bold, unless the opening marker is the last thing
+  // received (then drop it until its content arrives)
+  for (const marker of ["`", "**", "__"]) {
+    const count = result.split(marker).length - 1;
+    if (count % 2 === 0) continue;
+
+    const last = result.lastIndexOf(marker);
+    if (result.slice(last + marker.length).trim() === "") {
+      result = result.slice(0, last).trimEnd();
+    } else {
+      result = `${result.trimEnd()}${marker}`;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { Message } from "@shared/api";
+import { catalogItem } from "@shared/testing/catalog";
+import {
+  buildFeedbackRequest,
+  toMarkdownWithSources,
+  toPlainText,
+} from "./messageActions";
+
+const item = (subject_id: number, title: string) =>
+  catalogItem(title, { subject_id });
+
+const answer: Message = {
+  id: "a1",
+  parentId: "q1",
+  type: "assistant",
+  content: "Tabel yang relevan adalah **Rasio Jenis Kelamin** [1].",
+  timestamp: new Date("2025-07-07T10:00:00Z"),
+  sources: [{ title: "Rasio Jenis Kelamin", url: "https://bps.go.id/1" }],
+  relatedData: [
+    item(519, "Rasio Jenis Kelamin"),
+    item(520, "Angkatan Kerja"),
+    item(519, "Jumlah Penduduk"),
+  ],
+};
+
+describe("toPlainText", () => {
+  it("should strip Markdown emphasis, headings and links", () => {
+    expect(
+      toPlainText("## Judul\n**tebal** dan [tautan](https://x.id) [1]"),
+    ).toBe("Judul\ntebal dan tautan (https://x.id) [1]");
+  });
+});
+
+describe("toMarkdownWithSources", () => {
+  it("should append numbered source links", () => {
+    expect(toMarkdownWithSources(answer)).toBe(
+      `${answer.content}\n\n**Sumber Data:**\n\n1. [Rasio Jenis Kelamin](https://bps.go.id/1)`,
+    );
+  });
+});
+
+describe("buildFeedbackRequest", () => {
+  it("should record the question, subject ids and ranking", () => {
+    const question: Message = {
+      id: "q1",
+      parentId: null,
+      type: "user",
+      content: "rasio jenis kelamin",
+      timestamp: new Date(),
+    };
+
+    const request = buildFeedbackRequest(
+      answer,
+      question,
+      { rating: "down", comment: "tabel salah" },
+      "c1",
+    );
+
+    expect(request).toMatchObject({
+      conversationId: "c1",
+      messageId: "a1",
+      rating: "down",
+      comment: "tabel salah",
+      question: "rasio jenis kelamin",
+      subjectIds: [519, 520],
+    });
+    expect(request.ranking.map((r) => [r.rank, r.title])).toEqual([
+      [1, "Rasio Jenis Kelamin"],
+      [2, "Angkatan Kerja"],
+      [3, "Jumlah Penduduk"],
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import type { FeedbackRequest, Message, MessageFeedback } from "@shared/api";
+
+/**
+ * Strips the Markdown used in answers (emphasis, headings, links, citation
+ * brackets stay) so the text pastes cleanly into plain-text fields.
+ */
+export const toPlainText = (content: string): string =>
+  content
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)");
+
+/**
+ * The answer as Markdown followed by its numbered sources as links, matching
+ * the [n] citations in the text.
+ */
+export function toMarkdownWithSources(message: Message): string {
+  if (!message.sources?.length) return message.content;
+
+  const sources = message.sources
+    .map((source, index) => `${index + 1}. [${source.title}](${source.url})`)
+    .join("\n");
+  return `${message.content}\n\n**Sumber Data:**\n\n${sources}`;
+}
+
+/**
+ * Feedback payload for an answer: the question it replied to and the related
+ * tables in the order the search ranked them.
+ */
+export function buildFeedbackRequest(
+  answer: Message,
+  question: Message | undefined,
+  feedback: MessageFeedback,
+  conversationId?: string,
+): FeedbackRequest {
+  const related = answer.relatedData ?? [];
+
+  return {
+    ...feedback,
+    conversationId,
+    messageId: answer.id,
+    question: question?.content ?? "",
+    answer: answer.content,
+    subjectIds: Array.from(new Set(related.map((item) => item.subject_id))),
+    ranking: related.map((item, index) => ({
+      rank: index + 1,
+      subject_id: item.subject_id,
+      title: item.title,
+      url: item.url,
+    })),
+  };
+}
+
+export async function sendFeedback(request: FeedbackRequest): Promise<void> {
+  const res = await fetch("/api/feedback", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to send feedback (${res.status})`);
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import type { SearchDebugHit } from "@shared/api";
+import {
+  describeConstraints,
+  describeTerms,
+  isSearchDebugEnabled,
+} from "./searchDebug";
+
+describe("isSearchDebugEnabled", () => {
+  it("should follow the debug query parameter", () => {
+    expect(isSearchDebugEnabled("?debug")).toBe(true);
+    expect(isSearchDebugEnabled("?q=x&debug=1")).toBe(true);
+    expect(isSearchDebugEnabled("?debug=0")).toBe(false);
+    expect(isSearchDebugEnabled("?debug=false")).toBe(false);
+    expect(isSearchDebugEnabled("")).toBe(false);
+  });
+});
+
+describe("describeConstraints", () => {
+  it("should list the year range and breakdowns", () => {
+    expect(
+      describeConstraints({
+        text: "penduduk",
+        startYear: 2015,
+        endYear: 2020,
+        breakdowns: [["kecamatan"], ["jenis", "kelamin"]],
+      }),
+    ).toBe("2015–2020 · per kecamatan, jenis kelamin");
+    expect(
+      describeConstraints({
+        text: "penduduk",
+        startYear: 2015,
+        endYear: 2015,
+        breakdowns: [],
+      }),
+    ).toBe("2015");
+    expect(describeConstraints(null)).toBeNull();
+  });
+});
+
+describe("describeTerms", () => {
+  it("should mark typo and synonym matches", () => {
+    const hit = {
+      matchedTerms: ["pendudk", "produk", "medan"],
+      fuzzyTerms: ["pendudk"],
+      synonymTerms: ["produk"],
+    } as SearchDebugHit;
+
+    expect(describeTerms(hit)).toBe(
+      "pendudk (salah ketik), produk (sinonim), medan",
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import type { SearchDebug, SearchDebugHit } from "@shared/api";
+import type { TitleMatch } from "@shared/search";
+import type { QueryConstraints } from "@shared/tableTitle";
+
+/**
+ * Debug mode is switched on with `?debug` (or `?debug=1`) in the page URL;
+ * `?debug=0` and `?debug=false` leave it off.
+ */
+export const isSearchDebugEnabled = (search: string): boolean => {
+  const value = new URLSearchParams(search).get("debug");
+  return value !== null && value !== "0" && value !== "false";
+};
+
+export const SEARCH_RULE_LABELS: Record<SearchDebug["rule"], string> = {
+  ranked: "Peringkat kata",
+  constraints: "Peringkat kata, disaring tahun/rincian",
+  constraints_unranked:
+    "Tidak ada kata cocok; semua tabel disaring tahun/rincian",
+  constraints_ignored: "Tidak ada tabel sesuai tahun/rincian; filter diabaikan",
+  synonym_subjects: "Tidak ada kata cocok; tabel dari subjek sinonim",
+  filters_recent: "Tidak ada kata cocok; tabel terbaru sesuai filter",
+};
+
+export const TITLE_MATCH_LABELS: Record<TitleMatch, string> = {
+  exact: "Judul sama persis",
+  phrase: "Frasa utuh di judul",
+  term: "Kata di judul",
+  none: "Hanya kategori/deskripsi",
+};
+
+export const formatScore = (value: number): string => value.toFixed(2);
+
+/** Scores only present in hybrid mode; "–" when the hit has none */
+export const formatOptionalScore = (value: number | undefined): string =>
+  value === undefined ? "–" : formatScore(value);
+
+/** "2015–2020 · per kecamatan", or `null` when the question had neither */
+export const describeConstraints = (
+  constraints: QueryConstraints | null,
+): string | null => {
+  if (!constraints) return null;
+
+  const { startYear, endYear, breakdowns } = constraints;
+  const parts: string[] = [];
+  if (startYear !== null) {
+    parts.push(
+      endYear !== null && endYear !== startYear
+        ? `${startYear}–${endYear}`
+        : `${startYear}`,
+    );
+  }
+  if (breakdowns.length > 0) {
+    parts.push(`per ${breakdowns.map((words) => words.join(" ")).join(", ")}`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+};
+
+/** Matched terms with typos and synonym expansions marked */
+export const describeTerms = (hit: SearchDebugHit): string =>
+  hit.matchedTerms
+    .map((term) =>
+      hit.fuzzyTerms.includes(term)
+        ? `${term} (salah ketik)`
+        : hit.synonymTerms.includes(term)
+          ? `${term} (sinonim)`
+          : term,
+    )
+    .join(", ");
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import type { CatalogSubject } from "@shared/catalog";
+import { getStarterQuestions, STARTER_QUESTIONS } from "./starterQuestions";
+
+const subject = (id: number, title: string, tableCount: number) =>
+  ({
+    id,
+    title,
+    category: "Statistik Demografi dan Sosial",
+    url: `https://example.test/${id}`,
+    tableCount,
+    lastUpdated: null,
+  }) satisfies CatalogSubject;
+
+describe("getStarterQuestions", () => {
+  it("should never be empty before the catalogue loads", () => {
+    expect(getStarterQuestions([])).toHaveLength(6);
+    expect(getStarterQuestions([])[0]).toBe(STARTER_QUESTIONS[0].question);
+  });
+
+  it("should put curated questions of the largest subjects first", () => {
+    const questions = getStarterQuestions([
+      subject(519, "Kependudukan dan Migrasi", 15),
+      subject(561, "Pariwisata", 30),
+      subject(521, "Pendidikan", 20),
+    ]);
+
+    expect(questions).toEqual([
+      "Berapa angka partisipasi sekolah (APK/APM) di Kota Medan?",
+      "Berapa jumlah penduduk Kota Medan tahun 2024?",
+      "Data apa saja yang tersedia tentang pariwisata?",
+    ]);
+  });
+
+  it("should skip curated questions for subjects not in the catalogue", () => {
+    expect(
+      getStarterQuestions([subject(519, "Kependudukan dan Migrasi", 1)]),
+    ).toEqual(["Berapa jumlah penduduk Kota Medan tahun 2024?"]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { CatalogSubject } from "@shared/catalog";
+
+export const STARTER_LIMIT = 6;
+
+/**
+ * Hand-written starter questions for the subjects people ask about most.
+ * Each one matches tables that exist in the scraped catalogue.
+ */
+export const STARTER_QUESTIONS: { subjectId: number; question: string }[] = [
+  { subjectId: 519, question: "Berapa jumlah penduduk Kota Medan tahun 2024?" },
+  {
+    subjectId: 520,
+    question:
+      "Bagaimana tingkat pengangguran terbuka di Medan 5 tahun terakhir?",
+  },
+  { subjectId: 523, question: "Berapa jumlah penduduk miskin di Kota Medan?" },
+  { subjectId: 536, question: "Berapa inflasi bulanan Kota Medan tahun 2024?" },
+  {
+    subjectId: 531,
+    question: "Bagaimana distribusi PDRB Kota Medan menurut lapangan usaha?",
+  },
+  {
+    subjectId: 521,
+    question: "Berapa angka partisipasi sekolah (APK/APM) di Kota Medan?",
+  },
+  {
+    subjectId: 522,
+    question: "Berapa angka harapan hidup penduduk Kota Medan?",
+  },
+  { subjectId: 563, question: "Bagaimana perkembangan Gini Ratio Kota Medan?" },
+  {
+    subjectId: 564,
+    question: "Berapa Indeks Pembangunan Gender Kota Medan?",
+  },
+];
+
+/**
+ * Starter questions for the welcome screen, one per catalogue subject. Curated
+ * questions come first, and subjects with more tables lead within each group;
+ * the remaining subjects get a generic question. Before the catalogue loads
+ * the curated list is shown as is, so the screen is never empty.
+ */
+export const getStarterQuestions = (
+  subjects: CatalogSubject[],
+  limit = STARTER_LIMIT,
+): string[] => {
+  if (subjects.length === 0) {
+    return STARTER_QUESTIONS.slice(0, limit).map((starter) => starter.question);
+  }
+
+  const curated = new Map(
+    STARTER_QUESTIONS.map((starter) => [starter.subjectId, starter.question]),
+  );
+  const byTables = [...subjects].sort((a, b) => b.tableCount - a.tableCount);
+  const questions = [
+    ...byTables.filter((subject) => curated.has(subject.id)),
+    ...byTables.filter((subject) => !curated.has(subject.id)),
+  ].map(
+    (subject) =>
+      curated.get(subject.id) ??
+      `Data apa saja yang tersedia tentang ${subject.title.toLowerCase()}?`,
+  );
+  return questions.slice(0, limit);
+};
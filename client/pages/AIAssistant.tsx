@@ -1,92 +1,82 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Send, Bot, User, ExternalLink, Loader2, MessageSquare, Edit, Square, Plus, Menu, X } from "lucide-react";
+import { Send, Bot, User, ExternalLink, Loader2, MessageSquare, Edit, Square, Plus, Menu, X, Search, Pencil, Trash2, Check, ChevronLeft, ChevronRight, LibraryBig } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
-import {
-  getSuggestions,
-  getCategories,
-  searchBPSData,
-  detectSpecificKeywords,
-  BPSDataItem,
-} from "@/data/bpsData";
-
-interface Message {
-  id: string;
-  content: string;
-  type: "user" | "assistant";
-  timestamp: Date;
-  sources?: Array<{
-    title: string;
-    url: string;
-  }>;
-  relatedData?: BPSDataItem[];
-}
-
-const detectQuestionType = (question: string): string => {
-  const lower = question.toLowerCase();
-  if (lower.includes('halo') || lower.includes('hai') || lower.includes('hello')) return 'greeting';
-  if (lower.includes('terima kasih') || lower.includes('thanks')) return 'thanks';
-  if (lower.includes('siapa') || lower.includes('who') || lower.includes('kamu siapa') || lower.includes('anda siapa')) return 'identity';
-  if (lower.includes('list') || lower.includes('daftar') || lower.includes('kategori')) return 'list';
-  return 'information';
-};
-
-const findRelevantData = (question: string): BPSDataItem[] => {
-  const keywordResults = detectSpecificKeywords(question);
-  if (keywordResults.length > 0) {
-    return keywordResults;
-  }
-
-  const results = searchBPSData(question);
-  if (results.length > 0) {
-    return results;
-  }
-
-  return [];
-};
-
-const generatePersonalizedResponse = (question: string, questionType: string, relevantData: BPSDataItem[]): string => {
-  switch (questionType) {
-    case 'greeting':
-      return `Halo juga! 👋 Senang bertemu dengan Anda! Saya siap membantu Anda menemukan data statistik resmi BPS Kota Medan.`;
-    case 'thanks':
-      return "Sama-sama! 😊 Saya senang bisa membantu. Silakan tanyakan lagi jika ada yang lain!";
-    case 'identity':
-      return "Saya adalah AI Data Assistant khusus untuk BPS Kota Medan! 🤖 Saya diciptakan untuk membantu Anda mengakses dan mencari data statistik resmi BPS dengan mudah.";
-    case 'list':
-      const categories = getCategories();
-      let response = `Tentu! 📊 BPS Kota Medan memiliki ${categories.length} kategori utama statistik:\n\n`;
-      categories.forEach((category, index) => {
-        response += `${index + 1}. ${category}\n`;
-      });
-      return response;
-    default:
-      if (relevantData.length > 0) {
-        const primaryResult = relevantData[0];
-        let responseContent = `Berdasarkan pertanyaan Anda tentang "${question}", saya menemukan data yang relevan. ${primaryResult.description} \n\n`;
-
-        if (relevantData.length > 1) {
-          responseContent += `Berikut juga beberapa data terkait yang mungkin berguna:`;
-          relevantData.slice(1, 3).forEach((item) => {
-            responseContent += `\n- **${item.title}**: ${item.description}`;
-          });
-        }
-        
-        responseContent += `\n\nKlik link di bawah untuk melihat data lengkap dari portal resmi BPS. 🔗`;
-        return responseContent;
-      } else {
-        return `Maaf, saya tidak menemukan data yang relevan dengan pertanyaan Anda. 🙏 Coba gunakan kata kunci yang lebih spesifik seperti "populasi", "ekonomi", "pendidikan", atau "infrastruktur".`;
-      }
-  }
-};
+import { Input } from "@/components/ui/input";
+import type { BPSDataItem } from "@shared/catalog";
+import { useCatalog } from "@/hooks/use-catalog";
+import { ChatRequest, Conversation, Message, MessageFeedback } from "@shared/api";
+import { hasFilters, type CatalogFilters } from "@shared/filters";
+import { toast } from "sonner";
+import { streamChat } from "@/lib/chatStream";
+import { chatPath, createId, groupConversationsByDay, matchesSearch } from "@/lib/conversations";
+import { findLatestLeaf, getActivePath, getSiblings } from "@/lib/branches";
+import { buildFeedbackRequest, sendFeedback } from "@/lib/messageActions";
+import { MessageActions } from "@/components/chat/message-actions";
+import { MarkdownContent } from "@/components/chat/markdown-content";
+import { RelatedData } from "@/components/chat/related-data";
+import { SearchDebugPanel } from "@/components/chat/search-debug-panel";
+import { isSearchDebugEnabled } from "@/lib/searchDebug";
+import { FilterBar } from "@/components/chat/filter-bar";
+import { FilterChips } from "@/components/chat/filter-chips";
+import { describeFilters, getCatalogYears, removeFilter, type FilterChip } from "@/lib/filters";
+import { useConversations } from "@/hooks/use-conversations";
+import { useAutocomplete } from "@/hooks/use-autocomplete";
+import { Autocomplete } from "@/components/chat/autocomplete";
+import type { Suggestion } from "@/lib/autocomplete";
+import { getStarterQuestions } from "@/lib/starterQuestions";
+
+// "< 1/2 >" switcher between versions of an edited message
+const BranchNavigator = ({ index, count, onSelect, disabled }: {
+  index: number;
+  count: number;
+  onSelect: (offset: number) => void;
+  disabled: boolean;
+}) => (
+  <div className="inline-flex items-center gap-1 mt-1 text-xs text-gray-500 select-none">
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 w-6 p-0"
+      onClick={() => onSelect(-1)}
+      disabled={disabled || index === 0}
+      aria-label="Versi sebelumnya"
+    >
+      <ChevronLeft className="w-3 h-3" />
+    </Button>
+    <span>{index + 1}/{count}</span>
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 w-6 p-0"
+      onClick={() => onSelect(1)}
+      disabled={disabled || index === count - 1}
+      aria-label="Versi berikutnya"
+    >
+      <ChevronRight className="w-3 h-3" />
+    </Button>
+  </div>
+);
 
 // Chat Message Component
-const ChatMessage = ({ message, onEdit, isEditing }: {
+const ChatMessage = ({ message, onEdit, isEditing, branch, onSelectBranch, onRegenerate, onFeedback, onAskAbout, filterChips, onRemoveFilter, isBusy, isStreaming, showSearchDebug }: {
   message: Message,
   onEdit: (id: string, content: string) => void,
-  isEditing: boolean
+  isEditing: boolean,
+  branch: { index: number; count: number },
+  onSelectBranch: (offset: number) => void,
+  onRegenerate: () => void,
+  onFeedback: (feedback: MessageFeedback) => void,
+  onAskAbout: (item: BPSDataItem) => void,
+  filterChips: FilterChip[],
+  onRemoveFilter: (chip: FilterChip) => void,
+  isBusy: boolean,
+  isStreaming: boolean,
+  showSearchDebug: boolean
 }) => {
   const [isHovered, setIsHovered] = useState(false);
+  const hasActions = message.type === "assistant" && message.content.length > 0;
 
   return (
     <div
@@ -109,15 +99,24 @@ const ChatMessage = ({ message, onEdit, isEditing }: {
 
         {/* Message Content */}
         <div className={`relative flex-1 ${message.type === "user" ? "text-right" : "text-left"}`}>
+          {/* Filters the answer was retrieved with */}
+          {message.type === "assistant" && filterChips.length > 0 && (
+            <FilterChips chips={filterChips} onRemove={onRemoveFilter} disabled={isBusy} />
+          )}
+
           <div className={`inline-block max-w-full p-4 rounded-2xl ${
             message.type === "user"
               ? "bg-gray-100 text-gray-900"
               : "bg-white border border-gray-200 text-gray-900"
           }`}>
             <div className="prose prose-sm max-w-none">
-              <p className="whitespace-pre-wrap m-0 leading-relaxed">
-                {message.content}
-              </p>
+              {message.type === "assistant" ? (
+                <MarkdownContent content={message.content} isStreaming={isStreaming} />
+              ) : (
+                <p className="whitespace-pre-wrap m-0 leading-relaxed">
+                  {message.content}
+                </p>
+              )}
             </div>
 
             {/* Sources */}
@@ -133,7 +132,8 @@ const ChatMessage = ({ message, onEdit, isEditing }: {
                       rel="noopener noreferrer"
                       className="flex items-center text-xs text-blue-600 hover:text-blue-800 hover:underline"
                     >
-                      <ExternalLink className="w-3 h-3 mr-1" />
+                      <ExternalLink className="w-3 h-3 mr-1 flex-shrink-0" />
+                      <span className="mr-1 text-gray-500">[{index + 1}]</span>
                       {source.title}
                     </a>
                   ))}
@@ -142,6 +142,38 @@ const ChatMessage = ({ message, onEdit, isEditing }: {
             )}
           </div>
 
+          {/* Related Tables */}
+          {message.type === "assistant" && message.relatedData && message.relatedData.length > 0 && (
+            <RelatedData items={message.relatedData} onAsk={onAskAbout} disabled={isBusy} />
+          )}
+
+          {/* Search Ranking Breakdown (?debug=1) */}
+          {showSearchDebug && message.type === "assistant" && message.searchDebug && (
+            <SearchDebugPanel debug={message.searchDebug} />
+          )}
+
+          {/* Branch Navigation and Answer Actions */}
+          {(branch.count > 1 || hasActions) && (
+            <div className={`flex items-center gap-1 ${message.type === "user" ? "justify-end" : ""}`}>
+              {branch.count > 1 && (
+                <BranchNavigator
+                  index={branch.index}
+                  count={branch.count}
+                  onSelect={onSelectBranch}
+                  disabled={isBusy}
+                />
+              )}
+              {hasActions && (
+                <MessageActions
+                  message={message}
+                  onRegenerate={onRegenerate}
+                  onFeedback={onFeedback}
+                  disabled={isBusy}
+                />
+              )}
+            </div>
+          )}
+
           {/* Edit Button */}
           {message.type === "user" && isHovered && (
             <Button
@@ -162,7 +194,8 @@ const ChatMessage = ({ message, onEdit, isEditing }: {
 
 // Welcome Screen Component
 const WelcomeScreen = ({ handleSuggestionClick }: { handleSuggestionClick: (q: string) => void }) => {
-  const suggestions = getSuggestions('');
+  const { subjects } = useCatalog();
+  const suggestions = getStarterQuestions(subjects);
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[60vh] text-center px-4">
@@ -194,14 +227,109 @@ const WelcomeScreen = ({ handleSuggestionClick }: { handleSuggestionClick: (q: s
   );
 };
 
+// Sidebar Conversation Entry
+const ConversationItem = ({ conversation, isActive, onOpen, onRename, onDelete }: {
+  conversation: Conversation;
+  isActive: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const submitRename = () => {
+    onRename(conversation.id, title);
+    setIsRenaming(false);
+  };
+
+  if (isRenaming) {
+    return (
+      <form
+        className="flex items-center gap-1 p-2 rounded-lg border border-orange-500"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitRename();
+        }}
+      >
+        <Input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              setTitle(conversation.title);
+              setIsRenaming(false);
+            }
+          }}
+          className="h-7 text-sm"
+        />
+        <Button type="submit" variant="ghost" size="sm" className="h-7 w-7 p-0">
+          <Check className="w-3 h-3" />
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div
+      className={`group flex items-center gap-2 p-3 rounded-lg border cursor-pointer transition-colors ${
+        isActive ? "border-orange-500 bg-orange-50" : "border-gray-200 hover:bg-gray-50"
+      }`}
+      onClick={() => onOpen(conversation.id)}
+    >
+      <MessageSquare className="w-4 h-4 flex-shrink-0 text-gray-500" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-gray-700 truncate">{conversation.title}</p>
+        <p className="text-xs text-gray-500 mt-1">
+          {conversation.updatedAt.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+        </p>
+      </div>
+      <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          title="Ganti nama"
+          onClick={(e) => {
+            e.stopPropagation();
+            setTitle(conversation.title);
+            setIsRenaming(true);
+          }}
+        >
+          <Pencil className="w-3 h-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 hover:text-red-600"
+          title="Hapus"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete(conversation.id);
+          }}
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 // Sidebar Component
-const Sidebar = ({ isOpen, onClose, onNewChat, chatHistory }: {
+const Sidebar = ({ isOpen, onClose, onNewChat, conversations, activeId, onOpen, onRename, onDelete }: {
   isOpen: boolean;
   onClose: () => void;
   onNewChat: () => void;
-  chatHistory: Message[];
+  conversations: Conversation[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
 }) => {
-  const userMessages = chatHistory.filter(msg => msg.type === "user");
+  const [search, setSearch] = useState("");
+  const groups = groupConversationsByDay(conversations.filter(conv => matchesSearch(conv, search)));
 
   return (
     <>
@@ -214,7 +342,7 @@ const Sidebar = ({ isOpen, onClose, onNewChat, chatHistory }: {
       )}
 
       {/* Sidebar */}
-      <div className={`fixed left-0 top-0 h-full w-80 bg-white border-r border-gray-200 z-50 transform transition-transform duration-300 ease-in-out ${
+      <div className={`fixed left-0 top-0 h-full w-80 bg-white border-r border-gray-200 z-50 flex flex-col transform transition-transform duration-300 ease-in-out ${
         isOpen ? 'translate-x-0' : '-translate-x-full'
       } lg:translate-x-0 lg:static lg:z-0`}>
 
@@ -234,8 +362,8 @@ const Sidebar = ({ isOpen, onClose, onNewChat, chatHistory }: {
           </Button>
         </div>
 
-        {/* New Chat Button */}
-        <div className="p-4">
+        {/* New Chat and Catalogue Buttons */}
+        <div className="p-4 space-y-2">
           <Button
             onClick={onNewChat}
             className="w-full justify-start gap-2 bg-orange-500 hover:bg-orange-600 text-white"
@@ -243,29 +371,50 @@ const Sidebar = ({ isOpen, onClose, onNewChat, chatHistory }: {
             <Plus className="w-4 h-4" />
             Chat Baru
           </Button>
+          <Button variant="outline" className="w-full justify-start gap-2" asChild>
+            <Link to="/katalog">
+              <LibraryBig className="w-4 h-4" />
+              Jelajahi Katalog
+            </Link>
+          </Button>
         </div>
 
         {/* Chat History */}
-        <div className="p-4">
+        <div className="flex-1 overflow-y-auto p-4 pt-0">
           <h3 className="text-sm font-medium text-gray-600 mb-3">Riwayat Chat</h3>
-          {userMessages.length > 0 ? (
-            <div className="space-y-2">
-              {userMessages.slice(-5).map((msg) => (
-                <div
-                  key={msg.id}
-                  className="p-3 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer transition-colors"
-                >
-                  <p className="text-sm text-gray-700 truncate">
-                    {msg.content}
-                  </p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    {msg.timestamp.toLocaleDateString('id-ID')}
-                  </p>
+          <div className="relative mb-4">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Cari percakapan..."
+              className="pl-9 h-9"
+            />
+          </div>
+          {groups.length > 0 ? (
+            <div className="space-y-4">
+              {groups.map((group) => (
+                <div key={group.label}>
+                  <p className="text-xs font-medium text-gray-500 mb-2">{group.label}</p>
+                  <div className="space-y-2">
+                    {group.conversations.map((conv) => (
+                      <ConversationItem
+                        key={conv.id}
+                        conversation={conv}
+                        isActive={conv.id === activeId}
+                        onOpen={onOpen}
+                        onRename={onRename}
+                        onDelete={onDelete}
+                      />
+                    ))}
+                  </div>
                 </div>
               ))}
             </div>
           ) : (
-            <p className="text-sm text-gray-500">Belum ada riwayat chat</p>
+            <p className="text-sm text-gray-500">
+              {search ? "Tidak ada percakapan yang cocok" : "Belum ada riwayat chat"}
+            </p>
           )}
         </div>
       </div>
@@ -273,16 +422,51 @@ const Sidebar = ({ isOpen, onClose, onNewChat, chatHistory }: {
   );
 };
 
+// Navigation state of an explicit "new chat"; a bare /chat without it (a
+// reload or a typed URL) reopens the last conversation instead
+const NEW_CHAT_STATE = { newChat: true };
+
 // Main Component
 export default function AIAssistant() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const {
+    conversations,
+    activeConversation,
+    createConversation,
+    updateMessages,
+    selectBranch,
+    openConversation,
+    renameConversation,
+    deleteConversation,
+  } = useConversations();
+  const messages = activeConversation
+    ? getActivePath(activeConversation.messages, activeConversation.currentLeafId)
+    : [];
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchDebug] = useState(() => isSearchDebugEnabled(window.location.search));
+  const [filters, setFilters] = useState<CatalogFilters>({});
+  const { categories, subjects, items } = useCatalog();
+  const { conversationId: routeConversationId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const catalogYears = useMemo(() => getCatalogYears(items), [items]);
+  const autocomplete = useAutocomplete(input, !isTyping, (suggestion: Suggestion) => {
+    if (suggestion.kind === "table") {
+      setInput(suggestion.label);
+      autocomplete.close(suggestion.label);
+    } else {
+      // A subject scopes the next question instead of replacing the text
+      setFilters(prev => ({ ...prev, category: suggestion.subject.category, subjectId: suggestion.subject.id }));
+      autocomplete.close();
+    }
+    textareaRef.current?.focus();
+  });
 
-  const typingTimeoutRef = useRef<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -297,123 +481,203 @@ export default function AIAssistant() {
     }
   }, [input]);
 
-  const simulateTyping = (fullContent: string, messageId: string) => {
-    if (typingTimeoutRef.current) {
-      window.clearInterval(typingTimeoutRef.current);
-    }
-
-    let i = 0;
-    const interval = window.setInterval(() => {
-      setMessages(prev => {
-        return prev.map(msg =>
-          msg.id === messageId
-            ? { ...msg, content: fullContent.substring(0, i + 1) }
-            : msg
-        );
-      });
-
-      i++;
-      if (i >= fullContent.length) {
-        window.clearInterval(interval);
-        setIsTyping(false);
-      }
-    }, 20);
-
-    typingTimeoutRef.current = interval;
-  };
-
   const stopTyping = () => {
-    if (typingTimeoutRef.current) {
-      window.clearInterval(typingTimeoutRef.current);
-      typingTimeoutRef.current = null;
-    }
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setIsTyping(false);
+    setIsLoading(false);
   };
 
-  const handleNewChat = () => {
-    if (typingTimeoutRef.current) {
-      stopTyping();
+  // The URL decides which conversation is open: /chat/:conversationId an
+  // existing one, /chat a new chat when one was asked for (here or from the
+  // catalogue) and otherwise the conversation that was open last
+  const activeId = activeConversation?.id ?? null;
+  const startsNewChat = (location.state as typeof NEW_CHAT_STATE | null)?.newChat === true || searchParams.has("subject");
+  useEffect(() => {
+    if (!routeConversationId && !startsNewChat && activeId) {
+      navigate(chatPath(activeId), { replace: true });
+      return;
     }
-    setMessages([]);
+    openConversation(routeConversationId ?? null);
+  }, [routeConversationId, startsNewChat, activeId, openConversation, navigate]);
+
+  // /chat?subject=<id> (from the catalogue page) scopes the chat to a subject
+  const scopedSubjectId = Number(searchParams.get("subject"));
+  useEffect(() => {
+    const subject = subjects.find(s => s.id === scopedSubjectId);
+    if (!subject) return;
+    setFilters({ category: subject.category, subjectId: subject.id });
+    setSearchParams(params => {
+      params.delete("subject");
+      return params;
+    }, { replace: true });
+  }, [scopedSubjectId, subjects, setSearchParams]);
+
+  const handleOpenConversation = (id: string | null) => {
+    stopTyping();
+    navigate(chatPath(id), { state: id ? undefined : NEW_CHAT_STATE });
     setInput("");
     setEditingMessageId(null);
     setSidebarOpen(false);
   };
 
-  const handleSubmit = async (question?: string) => {
-    const currentInput = question || input;
-    if (!currentInput.trim() || isLoading) return;
+  const handleNewChat = () => handleOpenConversation(null);
+
+  const handleDeleteConversation = (id: string) => {
+    if (id === activeConversation?.id) {
+      stopTyping();
+      setEditingMessageId(null);
+    }
+    deleteConversation(id);
+    if (id === activeConversation?.id) navigate(chatPath(null), { state: NEW_CHAT_STATE });
+  };
 
+  const handleSubmit = async (question?: string) => {
     if (isTyping) {
       stopTyping();
       return;
     }
 
-    let userMessage: Message;
+    const currentInput = question || input;
+    if (!currentInput.trim() || isLoading) return;
 
-    if (editingMessageId) {
-      setMessages(prev => prev.map(msg =>
-        msg.id === editingMessageId
-          ? { ...msg, content: currentInput }
-          : msg
-      ));
-      userMessage = messages.find(msg => msg.id === editingMessageId)!;
-      setEditingMessageId(null);
-    } else {
-      userMessage = {
-        id: Date.now().toString(),
-        content: currentInput,
-        type: "user",
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, userMessage]);
+    let conversationId = activeConversation?.id;
+    if (!conversationId) {
+      conversationId = createConversation(currentInput);
+      navigate(chatPath(conversationId));
     }
 
+    // Editing forks the conversation: the new question becomes a sibling of
+    // the edited one, and the transcript is replayed only up to that point
+    const editedIndex = editingMessageId ? messages.findIndex(msg => msg.id === editingMessageId) : -1;
+    const history = editedIndex >= 0 ? messages.slice(0, editedIndex) : messages;
+    setEditingMessageId(null);
+
+    const userMessage: Message = {
+      id: createId(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      content: currentInput,
+      type: "user",
+      timestamp: new Date(),
+    };
+    updateMessages(conversationId, prev => [...prev, userMessage]);
     setInput("");
+
+    await streamResponse(conversationId, [...history, userMessage]);
+  };
+
+  // Streams a new assistant reply to the last message of `history`, retrieved
+  // with `answerFilters`, and selects the branch it ends
+  const streamResponse = async (conversationId: string, history: Message[], answerFilters: CatalogFilters = filters) => {
+    const setMessages = (update: (prev: Message[]) => Message[]) => updateMessages(conversationId, update);
+
     setIsLoading(true);
 
-    const responseId = (Date.now() + 1).toString();
+    const responseId = createId();
     const assistantMessage: Message = {
       id: responseId,
+      parentId: history[history.length - 1].id,
       content: "",
       type: "assistant",
       timestamp: new Date(),
+      ...(hasFilters(answerFilters) && { filters: answerFilters }),
     };
 
     setMessages(prev => [...prev, assistantMessage]);
+    selectBranch(conversationId, responseId);
     setIsTyping(true);
 
-    // Simulate processing time with original AI logic
-    const processingTime = Math.random() * 1000 + 1500;
-
-    setTimeout(() => {
-      const questionType = detectQuestionType(currentInput);
-      const relevantData = findRelevantData(currentInput);
-      const responseContent = generatePersonalizedResponse(currentInput, questionType, relevantData);
-
-      // Update message with sources and related data
-      setMessages(prev => prev.map(msg =>
-        msg.id === responseId
-          ? {
-              ...msg,
-              sources: relevantData.length > 0 ? relevantData.map(item => ({
-                title: item.title,
-                url: item.url
-              })) : questionType !== 'greeting' && questionType !== 'thanks' && questionType !== 'identity' && questionType !== 'list' ? [{
-                title: "Portal Resmi BPS Kota Medan",
-                url: "https://medankota.bps.go.id/id"
-              }] : undefined,
-              relatedData: relevantData.length > 0 ? relevantData : undefined,
-            }
-          : msg
-      ));
+    const request: ChatRequest = {
+      messages: history.map(msg => ({ type: msg.type, content: msg.content })),
+      ...(searchDebug && { debug: true }),
+      ...(hasFilters(answerFilters) && { filters: answerFilters }),
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const updateResponse = (update: (msg: Message) => Message) => {
+      setMessages(prev => prev.map(msg => msg.id === responseId ? update(msg) : msg));
+    };
+
+    try {
+      await streamChat(request, (event) => {
+        switch (event.type) {
+          case "meta":
+            // Sources and related data arrive before the answer text
+            setIsLoading(false);
+            updateResponse(msg => ({ ...msg, sources: event.sources, relatedData: event.relatedData, searchDebug: event.searchDebug }));
+            break;
+          case "token":
+            updateResponse(msg => ({ ...msg, content: msg.content + event.text }));
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
+      }, controller.signal);
+    } catch {
+      if (!controller.signal.aborted) {
+        updateResponse(msg => ({
+          ...msg,
+          content: "Maaf, terjadi kesalahan saat menghubungi server. Silakan coba lagi. 🙏",
+        }));
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsTyping(false);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Asks again for the question an answer replied to, keeping the old answer
+  // as a sibling version
+  const handleRegenerate = async (message: Message, answerFilters: CatalogFilters = message.filters ?? {}) => {
+    if (!activeConversation || isTyping) return;
+    const history = messages.slice(0, messages.indexOf(message));
+    await streamResponse(activeConversation.id, history, answerFilters);
+  };
+
+  // Removing a chip from an answer asks again without that filter and keeps
+  // the remaining ones for the next question
+  const handleRemoveFilter = (message: Message, chip: FilterChip) => {
+    const next = removeFilter(message.filters ?? {}, chip);
+    setFilters(next);
+    handleRegenerate(message, next);
+  };
+
+  const handleFeedback = (message: Message, feedback: MessageFeedback) => {
+    if (!activeConversation) return;
+    const conversationId = activeConversation.id;
+    const question = messages.find(msg => msg.id === message.parentId);
+
+    updateMessages(conversationId, prev => prev.map(msg =>
+      msg.id === message.id ? { ...msg, feedback } : msg
+    ));
+    sendFeedback(buildFeedbackRequest(message, question, feedback, conversationId))
+      .then(() => toast.success("Terima kasih atas masukan Anda!"))
+      .catch(() => toast.error("Masukan gagal dikirim. Silakan coba lagi."));
+  };
 
-      simulateTyping(responseContent, responseId);
-      setIsLoading(false);
-    }, processingTime);
+  const getBranchPosition = (message: Message) => {
+    const siblings = getSiblings(activeConversation?.messages ?? [], message);
+    return { index: siblings.indexOf(message), count: siblings.length };
+  };
+
+  // Switches a message to its previous/next version and shows the newest
+  // branch below that version
+  const handleSelectBranch = (message: Message, offset: number) => {
+    if (!activeConversation) return;
+    const siblings = getSiblings(activeConversation.messages, message);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (!target) return;
+    setEditingMessageId(null);
+    selectBranch(activeConversation.id, findLatestLeaf(activeConversation.messages, target.id));
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (autocomplete.onKeyDown(e)) return;
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit();
@@ -435,7 +699,11 @@ export default function AIAssistant() {
         isOpen={sidebarOpen}
         onClose={() => setSidebarOpen(false)}
         onNewChat={handleNewChat}
-        chatHistory={messages}
+        conversations={conversations}
+        activeId={activeConversation?.id ?? null}
+        onOpen={handleOpenConversation}
+        onRename={renameConversation}
+        onDelete={handleDeleteConversation}
       />
 
       {/* Main Content */}
@@ -466,6 +734,16 @@ export default function AIAssistant() {
                     message={message}
                     onEdit={handleEdit}
                     isEditing={!!editingMessageId}
+                    branch={getBranchPosition(message)}
+                    onSelectBranch={(offset) => handleSelectBranch(message, offset)}
+                    onRegenerate={() => handleRegenerate(message)}
+                    onFeedback={(feedback) => handleFeedback(message, feedback)}
+                    onAskAbout={(item) => handleSubmit(`Jelaskan tabel "${item.title}"`)}
+                    filterChips={describeFilters(message.filters, subjects)}
+                    onRemoveFilter={(chip) => handleRemoveFilter(message, chip)}
+                    isBusy={isTyping}
+                    isStreaming={isTyping && message.id === messages[messages.length - 1].id}
+                    showSearchDebug={searchDebug}
                   />
                 ))}
                 {isLoading && (
@@ -489,6 +767,14 @@ export default function AIAssistant() {
         {/* Input Area */}
         <div className="border-t border-gray-200 bg-white p-4">
           <div className="max-w-3xl mx-auto">
+            <FilterBar
+              filters={filters}
+              onChange={setFilters}
+              categories={categories}
+              subjects={subjects}
+              years={catalogYears}
+              disabled={isTyping}
+            />
             <div className="relative flex items-end gap-3 p-3 border border-gray-300 rounded-2xl bg-white focus-within:border-orange-500 transition-colors">
               <Textarea
                 ref={textareaRef}
@@ -503,7 +789,7 @@ export default function AIAssistant() {
               <Button
                 type="submit"
                 onClick={() => handleSubmit()}
-                disabled={(!input.trim() && !isTyping) || isLoading}
+                disabled={!isTyping && (!input.trim() || isLoading)}
                 size="sm"
                 className="h-8 w-8 p-0 rounded-lg bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300"
               >
@@ -515,6 +801,16 @@ export default function AIAssistant() {
               </Button>
             </div>
 
+            {/* Type-ahead Suggestions */}
+            {autocomplete.open && (
+              <Autocomplete
+                suggestions={autocomplete.suggestions}
+                highlighted={autocomplete.highlighted}
+                onHighlight={autocomplete.setHighlighted}
+                onSelect={autocomplete.select}
+              />
+            )}
+
             {/* Footer Text */}
             <p className="text-xs text-gray-500 text-center mt-3">
               AI Assistant dapat membuat kesalahan. Verifikasi informasi penting dengan sumber resmi.
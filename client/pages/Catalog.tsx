@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  Bot,
+  ExternalLink,
+  Loader2,
+  MessageSquare,
+  Search,
+} from "lucide-react";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCatalog } from "@/hooks/use-catalog";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import {
+  buildCatalogTree,
+  findSubjectNode,
+  scopedChatPath,
+  type CatalogSort,
+  type SubjectNode,
+} from "@/lib/catalogTree";
+import { formatIndonesianDate } from "@shared/catalog";
+
+const SEARCH_DELAY_MS = 200;
+
+const SubjectTables = ({ node }: { node: SubjectNode }) => {
+  const navigate = useNavigate();
+  const { subject, tables, lastUpdated } = node;
+
+  return (
+    <section className="space-y-4">
+      <div className="space-y-2">
+        <Badge variant="secondary" className="font-normal">
+          {subject.category}
+        </Badge>
+        <h2 className="text-xl font-semibold text-gray-900">{subject.title}</h2>
+        <p className="text-sm text-gray-600">
+          {tables.length} tabel
+          {lastUpdated && ` · diperbarui ${formatIndonesianDate(lastUpdated)}`}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+            onClick={() => navigate(scopedChatPath(subject.id))}
+          >
+            <MessageSquare className="w-4 h-4 mr-2" />
+            Mulai chat tentang subjek ini
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={subject.url} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Buka di BPS
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-200 border-y border-gray-200">
+        {tables.map((table) => (
+          <li key={table.url} className="py-3">
+            <a
+              href={table.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-blue-600 hover:underline"
+            >
+              {table.title}
+            </a>
+            {table.last_updated && (
+              <p className="text-xs text-gray-500 mt-1">
+                Diperbarui {formatIndonesianDate(table.last_updated)}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+/**
+ * Catalogue browser: categories → subjects in an accordion, the tables of
+ * the subject in the URL (`/katalog/:subjectId`) on the right.
+ */
+export default function Catalog() {
+  const { subjectId } = useParams();
+  const { items, subjects, synonyms, isLoading } = useCatalog();
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<CatalogSort>("relevance");
+  const query = useDebouncedValue(search, SEARCH_DELAY_MS);
+
+  const tree = useMemo(
+    () => buildCatalogTree(items, subjects, { query, sort, synonyms }),
+    [items, subjects, query, sort, synonyms],
+  );
+  const selected = subjectId ? findSubjectNode(tree, Number(subjectId)) : null;
+  const openCategories = selected
+    ? [selected.subject.category]
+    : query.trim().length >= 2
+      ? tree.map((category) => category.category)
+      : undefined;
+
+  return (
+    <div className="min-h-screen bg-white">
+      <header className="flex items-center gap-3 p-4 border-b border-gray-200">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/chat">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Chat
+          </Link>
+        </Button>
+        <Bot className="w-5 h-5 text-orange-500" />
+        <h1 className="font-semibold text-gray-900">Katalog Data BPS</h1>
+      </header>
+
+      <div className="max-w-6xl mx-auto p-4 grid gap-6 md:grid-cols-[20rem_1fr]">
+        <aside className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Cari tabel atau subjek..."
+              className="pl-9 h-9"
+            />
+          </div>
+          <Select
+            value={sort}
+            onValueChange={(value) => setSort(value as CatalogSort)}
+          >
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="relevance">Urutan katalog</SelectItem>
+              <SelectItem value="updated">Terakhir diperbarui</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin text-gray-600" />
+          ) : tree.length === 0 ? (
+            <p className="text-sm text-gray-500">Tidak ada tabel yang cocok</p>
+          ) : (
+            <Accordion
+              type="multiple"
+              // Remount when the forced open set changes so it applies
+              key={openCategories?.join("|") ?? "all"}
+              defaultValue={openCategories}
+            >
+              {tree.map((category) => (
+                <AccordionItem
+                  key={category.category}
+                  value={category.category}
+                >
+                  <AccordionTrigger className="text-sm text-left">
+                    <span>
+                      {category.category}
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {category.tableCount}
+                      </span>
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent className="pb-2">
+                    <nav className="space-y-1">
+                      {category.subjects.map(({ subject, tables }) => (
+                        <Link
+                          key={subject.id}
+                          to={`/katalog/${subject.id}`}
+                          className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm ${
+                            selected?.subject.id === subject.id
+                              ? "bg-orange-50 text-orange-700"
+                              : "text-gray-700 hover:bg-gray-50"
+                          }`}
+                        >
+                          <span>{subject.title}</span>
+                          <span className="text-xs text-gray-500">
+                            {tables.length}
+                          </span>
+                        </Link>
+                      ))}
+                    </nav>
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          )}
+        </aside>
+
+        <main>
+          {selected ? (
+            <SubjectTables node={selected} />
+          ) : (
+            <p className="text-sm text-gray-500">
+              {subjectId && !isLoading
+                ? "Subjek tidak ditemukan atau tidak cocok dengan pencarian."
+                : "Pilih subjek untuk melihat tabelnya."}
+            </p>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
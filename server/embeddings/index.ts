@@ -0,0 +1,27 @@
+import { createOnnxEmbedder } from "./onnx";
+import { Embedder, EmbeddingConfig, loadEmbeddingConfig } from "./provider";
+
+export type { Embedder, EmbeddingConfig } from "./provider";
+export { loadEmbeddingConfig } from "./provider";
+
+/** Returns the configured embedder, or `null` when semantic search is off */
+export function createEmbedder(config: EmbeddingConfig): Embedder | null {
+  switch (config.provider) {
+    case "onnx":
+      return createOnnxEmbedder(config);
+    default:
+      return null;
+  }
+}
+
+let embedder: Embedder | null | undefined;
+
+/**
+ * Returns the embedder selected by the EMBEDDING_* environment variables.
+ */
+export function getEmbedder(): Embedder | null {
+  if (embedder === undefined) {
+    embedder = createEmbedder(loadEmbeddingConfig());
+  }
+  return embedder;
+}
@@ -0,0 +1,70 @@
+import { Embedder } from "./provider";
+
+export interface OnnxEmbedderOptions {
+  model: string;
+  modelDir?: string;
+}
+
+interface FeatureExtractor {
+  (
+    texts: string[],
+    options: { pooling: "mean"; normalize: boolean },
+  ): Promise<{ tolist(): number[][] }>;
+}
+
+interface TransformersModule {
+  env: { localModelPath: string; allowRemoteModels: boolean };
+  pipeline(
+    task: "feature-extraction",
+    model: string,
+    options: { device: "cpu"; dtype: "q8" },
+  ): Promise<FeatureExtractor>;
+}
+
+// Optional dependency (native ONNX runtime), resolved at runtime so the
+// server still builds and runs lexically where it did not install
+const TRANSFORMERS_MODULE = "@huggingface/transformers";
+
+/**
+ * Runs a sentence-transformer exported to ONNX (quantised, CPU only) through
+ * the optional `@huggingface/transformers` dependency. The model loads on the
+ * first `embed` call, from `modelDir` or else from the Hugging Face Hub.
+ */
+export function createOnnxEmbedder(options: OnnxEmbedderOptions): Embedder {
+  let extractor: Promise<FeatureExtractor> | null = null;
+
+  const load = async (): Promise<FeatureExtractor> => {
+    let transformers: TransformersModule;
+    try {
+      transformers = await import(/* @vite-ignore */ TRANSFORMERS_MODULE);
+    } catch {
+      throw new Error(
+        `EMBEDDING_PROVIDER=onnx needs the optional ${TRANSFORMERS_MODULE} package; reinstall without --no-optional`,
+      );
+    }
+    if (options.modelDir) {
+      transformers.env.localModelPath = options.modelDir;
+      transformers.env.allowRemoteModels = false;
+    }
+    return transformers.pipeline("feature-extraction", options.model, {
+      device: "cpu",
+      dtype: "q8",
+    });
+  };
+
+  return {
+    name: "onnx",
+    model: options.model,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      extractor ??= load();
+      // A failed load is retried on the next call instead of being cached
+      const run = await extractor.catch((error) => {
+        extractor = null;
+        throw error;
+      });
+      const output = await run(texts, { pooling: "mean", normalize: true });
+      return output.tolist();
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import path from "path";
+
+/**
+ * A sentence embedding model. `embed` returns one L2-normalised vector per
+ * input text, in the same order.
+ */
+export interface Embedder {
+  name: string;
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingConfig {
+  provider: "none" | "onnx";
+  model: string;
+  /** Directory holding downloaded models; when set, nothing is fetched */
+  modelDir?: string;
+  /**
+   * Where catalogue vectors are cached between restarts; next to the
+   * catalogue so they can be deployed with it
+   */
+  cacheDir: string;
+  /** Share of the semantic similarity in the hybrid score, 0..1 */
+  weight: number;
+}
+
+const parseWeight = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 && parsed <= 1
+    ? parsed
+    : fallback;
+};
+
+/**
+ * Reads the embedding settings from the environment. Semantic search is off
+ * unless EMBEDDING_PROVIDER is `onnx`.
+ */
+export function loadEmbeddingConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): EmbeddingConfig {
+  return {
+    provider: env.EMBEDDING_PROVIDER === "onnx" ? "onnx" : "none",
+    model:
+      env.EMBEDDING_MODEL ?? "Xenova/paraphrase-multilingual-MiniLM-L12-v2",
+    modelDir: env.EMBEDDING_MODEL_DIR || undefined,
+    cacheDir:
+      env.EMBEDDING_CACHE_DIR ??
+      path.join(env.CATALOG_DIR ?? "data/catalog", "embeddings"),
+    weight: parseWeight(env.EMBEDDING_WEIGHT, 0.5),
+  };
+}
@@ -2,13 +2,60 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
+import {
+  handleGetCatalog,
+  handleGetCatalogSubject,
+  handleGetCatalogTable,
+} from "./routes/catalog";
+import { handleChat, handleChatStream } from "./routes/chat";
+import {
+  handleCreateConversation,
+  handleDeleteConversation,
+  handleGetConversation,
+  handleListConversations,
+  handleSaveConversation,
+  handleUpdateConversation,
+} from "./routes/conversations";
+import { handleFeedback } from "./routes/feedback";
+import {
+  handleCatalogReload,
+  handleCatalogReport,
+  handleObservationReload,
+  handleObservationReport,
+  requireAdmin,
+} from "./routes/admin";
+import {
+  handleListObservationTables,
+  handleQueryObservations,
+} from "./routes/observations";
+import { getCatalogSnapshot, watchCatalog } from "./lib/catalog";
+import { getVectorIndex } from "./lib/vectors";
+import { reloadObservations } from "./lib/observations";
+import { getEmbedder, loadEmbeddingConfig } from "./embeddings";
 
 export function createServer() {
   const app = express();
 
+  // Load the catalogue up front rather than on the first request, and pick up
+  // new scrape files without a restart
+  const snapshot = getCatalogSnapshot();
+  if (process.env.CATALOG_WATCH !== "false") watchCatalog();
+
+  // Start embedding the catalogue so hybrid retrieval is ready sooner
+  const embedder = getEmbedder();
+  if (embedder) {
+    getVectorIndex(snapshot, embedder, loadEmbeddingConfig().cacheDir);
+  }
+
+  // Import the numeric table contents in the background; the store is empty
+  // until this finishes
+  void reloadObservations();
+
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  // Conversations carry the related tables of every answer, well past the
+  // default 100kb once a chat grows
+  app.use(express.json({ limit: "1mb" }));
   app.use(express.urlencoded({ extended: true }));
 
   // Example API routes
@@ -19,5 +66,43 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Catalogue
+  app.get("/api/catalog", handleGetCatalog);
+  app.get("/api/catalog/subjects/:id", handleGetCatalogSubject);
+  app.get("/api/catalog/tables/:id", handleGetCatalogTable);
+
+  // Numeric table contents
+  app.get("/api/observations/tables", handleListObservationTables);
+  app.get("/api/observations", handleQueryObservations);
+
+  // Chat
+  app.post("/api/chat", handleChat);
+  app.post("/api/chat/stream", handleChatStream);
+
+  // Conversations
+  app.get("/api/conversations", handleListConversations);
+  app.post("/api/conversations", handleCreateConversation);
+  app.get("/api/conversations/:id", handleGetConversation);
+  app.put("/api/conversations/:id", handleSaveConversation);
+  app.patch("/api/conversations/:id", handleUpdateConversation);
+  app.delete("/api/conversations/:id", handleDeleteConversation);
+
+  // Answer feedback
+  app.post("/api/feedback", handleFeedback);
+
+  // Admin
+  app.get("/api/admin/catalog/report", requireAdmin, handleCatalogReport);
+  app.post("/api/admin/catalog/reload", requireAdmin, handleCatalogReload);
+  app.get(
+    "/api/admin/observations/report",
+    requireAdmin,
+    handleObservationReport,
+  );
+  app.post(
+    "/api/admin/observations/reload",
+    requireAdmin,
+    handleObservationReload,
+  );
+
   return app;
 }
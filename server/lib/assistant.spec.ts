@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ChatStreamEvent } from "@shared/api";
+import { createMockProvider } from "../llm/mock";
+import { answerQuestion, detectQuestionType, streamAnswer } from "./assistant";
+import { reloadObservations } from "./observations";
+
+const provider = createMockProvider();
+
+describe("detectQuestionType", () => {
+  it("should recognise small talk", () => {
+    expect(detectQuestionType("Halo!")).toBe("greeting");
+    expect(detectQuestionType("terima kasih ya")).toBe("thanks");
+    expect(detectQuestionType("daftar kategori")).toBe("list");
+  });
+
+  it("should default to information questions", () => {
+    expect(detectQuestionType("jumlah penduduk medan")).toBe("information");
+  });
+});
+
+describe("answerQuestion", () => {
+  it("should answer with sources and related data from the catalogue", async () => {
+    const response = await answerQuestion(
+      [{ type: "user", content: "rasio jenis kelamin penduduk" }],
+      { provider },
+    );
+
+    expect(response.relatedData?.length).toBeGreaterThan(0);
+    expect(response.sources).toEqual(
+      response.relatedData!.slice(0, response.sources!.length).map((item) => ({
+        title: item.title,
+        url: item.url,
+      })),
+    );
+    expect(response.sources![0].url).toContain("medankota.bps.go.id");
+    expect(response.answer).toContain(response.relatedData![0].title);
+  });
+
+  it("should explain the search ranking only in debug mode", async () => {
+    const messages = [
+      { type: "user" as const, content: "rasio jenis kelamin penduduk" },
+    ];
+    const plain = await answerQuestion(messages, { provider });
+    const debug = await answerQuestion(messages, { provider, debug: true });
+
+    expect(plain.searchDebug).toBeUndefined();
+    expect(debug.searchDebug?.mode).toBe("lexical");
+    expect(debug.searchDebug?.hits[0].url).toBe(debug.relatedData![0].url);
+  });
+
+  it("should only answer the last user turn", async () => {
+    const response = await answerQuestion(
+      [
+        { type: "user", content: "jumlah penduduk" },
+        { type: "assistant", content: "..." },
+        { type: "user", content: "terima kasih" },
+      ],
+      { provider },
+    );
+
+    expect(response.answer).toContain("Sama-sama");
+    expect(response.sources).toBeUndefined();
+  });
+
+  it("should send the conversation and retrieved data to the provider", async () => {
+    let prompt = "";
+    const spy = createMockProvider({
+      reply: (request) => {
+        prompt = request.messages.map((msg) => msg.content).join("\n");
+        return "ok";
+      },
+    });
+
+    const response = await answerQuestion(
+      [{ type: "user", content: "rasio jenis kelamin" }],
+      { provider: spy },
+    );
+
+    expect(response.answer).toBe("ok");
+    expect(prompt).toContain("StatMedan AI");
+    expect(prompt).toContain("Rasio Jenis Kelamin");
+  });
+});
+
+describe("answerQuestion with table values", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "observations-"));
+    fs.writeFileSync(
+      path.join(dir, "519-1.csv"),
+      [
+        "Kecamatan,2023,2024",
+        "Medan Tuntungan,97,97.5",
+        "Medan Johor,99,101.25",
+        "Kota Medan,98,99",
+      ].join("\n"),
+    );
+    process.env.OBSERVATIONS_DIR = dir;
+    await reloadObservations();
+  });
+
+  afterAll(async () => {
+    delete process.env.OBSERVATIONS_DIR;
+    fs.rmSync(dir, { recursive: true, force: true });
+    await reloadObservations();
+  });
+
+  it("should compute the answer and cite the table it came from", async () => {
+    const response = await answerQuestion(
+      [
+        {
+          type: "user",
+          content: "kecamatan dengan rasio jenis kelamin tertinggi",
+        },
+      ],
+      { provider: createMockProvider({ reply: () => "llm" }) },
+    );
+
+    expect(response.answer).toContain("**Medan Johor** (101,25 Persen)");
+    expect(response.answer).toContain("pada tahun 2024");
+    expect(response.sources).toHaveLength(1);
+    expect(response.sources![0].url).toMatch(/subject=519#row-1$/);
+  });
+
+  it("should leave questions without a number to the LLM", async () => {
+    const response = await answerQuestion(
+      [{ type: "user", content: "rasio jenis kelamin penduduk" }],
+      { provider: createMockProvider({ reply: () => "llm" }) },
+    );
+
+    expect(response.answer).toBe("llm");
+  });
+});
+
+describe("streamAnswer", () => {
+  it("should emit meta before the answer tokens", async () => {
+    const events: ChatStreamEvent[] = [];
+    for await (const event of streamAnswer(
+      [{ type: "user", content: "rasio jenis kelamin penduduk" }],
+      { provider },
+    )) {
+      events.push(event);
+    }
+
+    expect(events[0].type).toBe("meta");
+    expect(events[events.length - 1].type).toBe("done");
+
+    const text = events
+      .map((event) => (event.type === "token" ? event.text : ""))
+      .join("");
+    const { answer } = await answerQuestion(
+      [{ type: "user", content: "rasio jenis kelamin penduduk" }],
+      { provider },
+    );
+    expect(text).toBe(answer);
+  });
+});
@@ -0,0 +1,257 @@
+import {
+  ChatResponse,
+  ChatStreamEvent,
+  ChatTurn,
+  SearchDebug,
+} from "@shared/api";
+import { BPSDataItem, getCatalogCategories } from "../../shared/catalog";
+import { CatalogFilters } from "../../shared/filters";
+import { CatalogSnapshot, getCatalogSnapshot } from "./catalog";
+import {
+  buildGroundedPrompt,
+  explainRetrieval,
+  retrieve,
+  retrieveHybrid,
+  Retrieval,
+  toSources,
+  TOP_K,
+} from "./rag";
+import { answerNumeric } from "./numeric";
+import { getObservationSnapshot } from "./observations";
+import { getVectorIndex } from "./vectors";
+import { Embedder, getEmbedder, loadEmbeddingConfig } from "../embeddings";
+import { getLLMProvider, LLMMessage, LLMProvider } from "../llm";
+
+type QuestionType = "greeting" | "thanks" | "identity" | "list" | "information";
+
+const PORTAL_SOURCE = {
+  title: "Portal Resmi BPS Kota Medan",
+  url: "https://medankota.bps.go.id/id",
+};
+
+export const detectQuestionType = (question: string): QuestionType => {
+  const lower = question.toLowerCase();
+  if (
+    lower.includes("halo") ||
+    lower.includes("hai") ||
+    lower.includes("hello")
+  )
+    return "greeting";
+  if (lower.includes("terima kasih") || lower.includes("thanks"))
+    return "thanks";
+  if (
+    lower.includes("siapa") ||
+    lower.includes("who") ||
+    lower.includes("kamu siapa") ||
+    lower.includes("anda siapa")
+  )
+    return "identity";
+  if (
+    lower.includes("list") ||
+    lower.includes("daftar") ||
+    lower.includes("kategori")
+  )
+    return "list";
+  return "information";
+};
+
+/**
+ * Fixed replies for questions that need no retrieval, or `null` when the
+ * question should be answered by the LLM.
+ */
+const generateFixedResponse = (
+  catalog: BPSDataItem[],
+  questionType: QuestionType,
+  relevantData: BPSDataItem[],
+): string | null => {
+  switch (questionType) {
+    case "greeting":
+      return `Halo juga! 👋 Senang bertemu dengan Anda! Saya siap membantu Anda menemukan data statistik resmi BPS Kota Medan.`;
+    case "thanks":
+      return "Sama-sama! 😊 Saya senang bisa membantu. Silakan tanyakan lagi jika ada yang lain!";
+    case "identity":
+      return "Saya adalah AI Data Assistant khusus untuk BPS Kota Medan! 🤖 Saya diciptakan untuk membantu Anda mengakses dan mencari data statistik resmi BPS dengan mudah.";
+    case "list": {
+      const categories = getCatalogCategories(catalog);
+      let response = `Tentu! 📊 BPS Kota Medan memiliki ${categories.length} kategori utama statistik:\n\n`;
+      categories.forEach((category, index) => {
+        response += `${index + 1}. ${category}\n`;
+      });
+      return response;
+    }
+    default:
+      if (relevantData.length === 0) {
+        return `Maaf, saya tidak menemukan data yang relevan dengan pertanyaan Anda. 🙏 Coba gunakan kata kunci yang lebih spesifik seperti "populasi", "ekonomi", "pendidikan", atau "infrastruktur".`;
+      }
+      return null;
+  }
+};
+
+export interface AnswerOptions {
+  provider?: LLMProvider;
+  /** Embedder for hybrid retrieval; `null` keeps retrieval lexical */
+  embedder?: Embedder | null;
+  /** Attach the ranking breakdown as `searchDebug` */
+  debug?: boolean;
+  /** Only retrieve tables matching these filters */
+  filters?: CatalogFilters;
+  signal?: AbortSignal;
+}
+
+interface PreparedAnswer extends Omit<ChatResponse, "answer"> {
+  /** Set when the answer does not need the LLM */
+  reply: string | null;
+  prompt: LLMMessage[];
+}
+
+/**
+ * Hybrid retrieval once the catalogue vectors are ready, lexical until then.
+ */
+const retrieveFor = async (
+  snapshot: CatalogSnapshot,
+  question: string,
+  embedder: Embedder | null,
+  filters: CatalogFilters | undefined,
+): Promise<Retrieval & { mode: SearchDebug["mode"] }> => {
+  const { items, synonyms } = snapshot;
+  const config = loadEmbeddingConfig();
+  const vectors =
+    embedder && getVectorIndex(snapshot, embedder, config.cacheDir);
+  if (!vectors) {
+    return {
+      ...retrieve(items, question, TOP_K, synonyms, filters),
+      mode: "lexical",
+    };
+  }
+
+  const retrieval = await retrieveHybrid(items, question, {
+    embedder,
+    vectors,
+    weight: config.weight,
+    synonyms,
+    filters,
+  });
+  // A failed embedding falls back to the lexical ranking
+  return { ...retrieval, mode: retrieval.blended ? "hybrid" : "lexical" };
+};
+
+const prepareAnswer = async (
+  messages: ChatTurn[],
+  {
+    embedder,
+    debug,
+    filters,
+  }: Pick<AnswerOptions, "embedder" | "debug" | "filters">,
+): Promise<PreparedAnswer> => {
+  const question = messages[messages.length - 1].content;
+  const snapshot = getCatalogSnapshot();
+  const catalog = snapshot.items;
+
+  const questionType = detectQuestionType(question);
+  if (questionType !== "information") {
+    // Small talk gets a fixed reply; searching it would only attach stray sources
+    return {
+      reply: generateFixedResponse(catalog, questionType, []),
+      prompt: buildGroundedPrompt(messages, []),
+    };
+  }
+
+  const { documents, related, blended, mode } = await retrieveFor(
+    snapshot,
+    question,
+    embedder,
+    filters,
+  );
+  const reply = generateFixedResponse(catalog, questionType, documents);
+  const prompt = buildGroundedPrompt(messages, documents);
+  const searchDebug = debug
+    ? explainRetrieval(
+        catalog,
+        question,
+        mode,
+        snapshot.synonyms,
+        filters,
+        blended,
+      )
+    : undefined;
+
+  // Quantitative questions over ingested table values are computed here
+  // rather than left to the LLM; the source is the one table used
+  const numeric = answerNumeric(
+    question,
+    documents,
+    getObservationSnapshot().tables,
+  );
+  if (numeric) {
+    return {
+      reply: numeric.text,
+      prompt,
+      sources: toSources([numeric.item]),
+      relatedData: related,
+      searchDebug,
+    };
+  }
+
+  if (documents.length > 0) {
+    return {
+      reply,
+      prompt,
+      sources: toSources(documents),
+      relatedData: related,
+      searchDebug,
+    };
+  }
+
+  return { reply, prompt, sources: [PORTAL_SOURCE], searchDebug };
+};
+
+/**
+ * Answers the last user turn of a conversation using the BPS catalogue.
+ */
+export async function answerQuestion(
+  messages: ChatTurn[],
+  {
+    provider = getLLMProvider(),
+    embedder = getEmbedder(),
+    debug,
+    filters,
+    signal,
+  }: AnswerOptions = {},
+): Promise<ChatResponse> {
+  const { reply, prompt, ...meta } = await prepareAnswer(messages, {
+    embedder,
+    debug,
+    filters,
+  });
+  const answer =
+    reply ?? (await provider.generate({ messages: prompt, signal }));
+  return { answer, ...meta };
+}
+
+/**
+ * Streams the answer for the last user turn: a `meta` event carrying sources
+ * and related data first, then the answer text as the provider produces it.
+ */
+export async function* streamAnswer(
+  messages: ChatTurn[],
+  {
+    provider = getLLMProvider(),
+    embedder = getEmbedder(),
+    debug,
+    filters,
+    signal,
+  }: AnswerOptions = {},
+): AsyncGenerator<ChatStreamEvent> {
+  const { reply, prompt, sources, relatedData, searchDebug } =
+    await prepareAnswer(messages, { embedder, debug, filters });
+  yield { type: "meta", sources, relatedData, searchDebug };
+
+  const chunks =
+    reply !== null
+      ? reply.split(/(?<=\s)(?=\S)/)
+      : provider.stream({ messages: prompt, signal });
+  for await (const text of chunks) {
+    yield { type: "token", text };
+  }
+  yield { type: "done" };
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  getCatalog,
+  getCatalogReport,
+  loadCatalog,
+  reloadCatalog,
+  unwatchCatalog,
+  watchCatalog,
+} from "./catalog";
+
+const HEADER =
+  "parent_category,parent_subject_id,parent_title,parent_url,row_number,title,last_updated,url,extracted_at";
+const row = (
+  subject: number,
+  n: number,
+  title: string,
+  lastUpdated = "7 Juli 2025",
+  url = `https://medankota.bps.go.id/id/statistics-table?subject=${subject}#row-${n}`,
+) =>
+  `Statistik Demografi dan Sosial,${subject},Kependudukan dan Migrasi,https://medankota.bps.go.id/id/statistics-table?subject=${subject},${n},"${title}",${lastUpdated},${url},2025-08-26T13:11:56`;
+
+describe("loadCatalog", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "catalog-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should merge every CSV file in the directory", () => {
+    fs.writeFileSync(
+      path.join(dir, "b.csv"),
+      [HEADER, row(520, 1, "Angkatan Kerja, 2012 - 2018")].join("\n"),
+    );
+    fs.writeFileSync(
+      path.join(dir, "a.csv"),
+      [HEADER, row(519, 1, "Jumlah Penduduk, 2010 - 2024")].join("\n"),
+    );
+    fs.writeFileSync(path.join(dir, "notes.txt"), "ignored");
+
+    const { items, version } = loadCatalog(dir);
+
+    expect(items.map((item) => item.subject_id)).toEqual([519, 520]);
+    expect(version).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("should change the version when a file changes", () => {
+    const file = path.join(dir, "a.csv");
+    fs.writeFileSync(file, [HEADER, row(519, 1, "Penduduk, 2010")].join("\n"));
+    const before = loadCatalog(dir).version;
+
+    fs.writeFileSync(file, [HEADER, row(519, 1, "Penduduk, 2011")].join("\n"));
+
+    expect(loadCatalog(dir).version).not.toBe(before);
+  });
+
+  it("should throw when no rows can be read", () => {
+    expect(() => loadCatalog(dir)).toThrow(/No catalogue rows/);
+  });
+});
+
+describe("catalogue validation report", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "catalog-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should report rejected rows, duplicates, unknown subjects and bad dates", () => {
+    fs.writeFileSync(
+      path.join(dir, "a.csv"),
+      [
+        HEADER,
+        row(519, 1, "Jumlah Penduduk, 2010 - 2024"),
+        row(519, 2, "Tanpa Kategori, 2020").replace(/^[^,]+/, ""),
+        row(999, 3, "Tabel Baru, 2020"),
+        row(519, 4, "Rasio Jenis Kelamin, 2020", "7 Juillet 2025"),
+        row(519, 5, "Salinan, 2020", "-", "https://example.test/a"),
+        row(520, 6, "Salinan Lain, 2020", "-", "https://example.test/a"),
+      ].join("\n"),
+    );
+
+    const { items, report } = loadCatalog(dir);
+
+    expect(items).toHaveLength(5);
+    expect(report.files).toEqual([{ file: "a.csv", rows: 6, accepted: 5 }]);
+    expect(report.counts).toEqual({
+      rejected: 1,
+      duplicate_url: 1,
+      unknown_subject: 1,
+      invalid_date: 1,
+    });
+    expect(report.issues).toContainEqual({
+      kind: "rejected",
+      file: "a.csv",
+      line: 3,
+      message: "Missing category",
+    });
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ kind: "duplicate_url", line: 7 }),
+    );
+  });
+});
+
+describe("synonym dictionary", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "catalog-"));
+    fs.writeFileSync(
+      path.join(dir, "a.csv"),
+      [HEADER, row(519, 1, "Indeks Pembangunan Manusia, 2010 - 2024")].join(
+        "\n",
+      ),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should drop subjects without tables and malformed entries", () => {
+    fs.writeFileSync(
+      path.join(dir, "synonyms.json"),
+      JSON.stringify({
+        entries: [
+          {
+            canonical: "indeks pembangunan manusia",
+            aliases: ["ipm"],
+            subjects: [519, 537],
+          },
+          { canonical: "upah", aliases: [] },
+          { canonical: "ekonomi makro", aliases: ["makro"], subjects: [530] },
+        ],
+      }),
+    );
+
+    const { synonyms, report } = loadCatalog(dir);
+
+    expect(synonyms).toEqual([
+      {
+        canonical: "indeks pembangunan manusia",
+        aliases: ["ipm"],
+        subjects: [519],
+      },
+      { canonical: "ekonomi makro", aliases: ["makro"], subjects: [] },
+    ]);
+    expect(report.synonyms.entries).toBe(2);
+    expect(report.synonyms.issues.map((issue) => issue.entry)).toEqual([
+      0, 1, 2,
+    ]);
+    expect(report.synonyms.issues[0].message).toBe(
+      "Subject 537 has no tables in the catalogue",
+    );
+  });
+
+  it("should keep the catalogue when the file is not valid JSON", () => {
+    fs.writeFileSync(path.join(dir, "synonyms.json"), "{ entries: ");
+
+    const { items, synonyms, report } = loadCatalog(dir);
+
+    expect(items).toHaveLength(1);
+    expect(synonyms).toEqual([]);
+    expect(report.synonyms.issues[0].message).toMatch(/^Invalid JSON/);
+  });
+
+  it("should load the shipped dictionary without issues", () => {
+    const { synonyms, report } = loadCatalog(path.resolve("data/catalog"));
+
+    expect(report.synonyms.issues).toEqual([]);
+    expect(synonyms.length).toBeGreaterThan(0);
+  });
+});
+
+describe("reloadCatalog", () => {
+  let dir: string;
+  const originalDir = process.env.CATALOG_DIR;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "catalog-"));
+    process.env.CATALOG_DIR = dir;
+  });
+
+  afterEach(() => {
+    unwatchCatalog();
+    process.env.CATALOG_DIR = originalDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should keep the previous catalogue when a reload fails", () => {
+    const file = path.join(dir, "a.csv");
+    fs.writeFileSync(file, [HEADER, row(519, 1, "Penduduk, 2010")].join("\n"));
+    reloadCatalog();
+
+    fs.writeFileSync(file, HEADER);
+    reloadCatalog();
+
+    expect(getCatalog().map((item) => item.title)).toEqual(["Penduduk, 2010"]);
+    expect(getCatalogReport().reloadError.message).toMatch(/No catalogue rows/);
+  });
+
+  it("should pick up new files while watching", async () => {
+    fs.writeFileSync(
+      path.join(dir, "a.csv"),
+      [HEADER, row(519, 1, "Penduduk, 2010")].join("\n"),
+    );
+    reloadCatalog();
+    watchCatalog();
+
+    fs.writeFileSync(
+      path.join(dir, "b.csv"),
+      [HEADER, row(520, 1, "Angkatan Kerja, 2012")].join("\n"),
+    );
+
+    await vi.waitFor(() => expect(getCatalog()).toHaveLength(2), {
+      timeout: 3000,
+    });
+  });
+});
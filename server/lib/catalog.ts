@@ -0,0 +1,279 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { CatalogIssue, CatalogReport } from "@shared/api";
+import {
+  BPSDataItem,
+  bpsDataStatic,
+  parseCsvWithIssues,
+} from "../../shared/catalog";
+import { getSearchIndex } from "../../shared/search";
+import {
+  SynonymEntry,
+  SynonymIssue,
+  validateSynonyms,
+} from "../../shared/synonyms";
+import {
+  formatZodError,
+  synonymEntrySchema,
+  synonymFileSchema,
+} from "./schemas";
+
+export interface CatalogSnapshot {
+  items: BPSDataItem[];
+  /** Synonym entries whose subjects all exist in `items` */
+  synonyms: SynonymEntry[];
+  /** Content hash of the loaded CSV files, used as the catalogue ETag */
+  version: string;
+  loadedAt: Date;
+  report: CatalogReport;
+}
+
+const RELOAD_DELAY_MS = 300;
+
+/** Synonym and abbreviation dictionary kept next to the CSVs */
+export const SYNONYMS_FILE = "synonyms.json";
+
+let snapshot: CatalogSnapshot | null = null;
+let reloadError: CatalogReport["reloadError"];
+let watcher: fs.FSWatcher | null = null;
+
+/** Directory holding the scraped catalogue CSVs, from CATALOG_DIR */
+export const getCatalogDir = (): string =>
+  path.resolve(process.env.CATALOG_DIR ?? "data/catalog");
+
+const countIssues = (issues: CatalogIssue[]): CatalogReport["counts"] => {
+  const counts: CatalogReport["counts"] = {
+    rejected: 0,
+    duplicate_url: 0,
+    unknown_subject: 0,
+    invalid_date: 0,
+  };
+  issues.forEach((issue) => counts[issue.kind]++);
+  return counts;
+};
+
+/**
+ * Reads the synonym dictionary in `dir`, if any, and validates it against the
+ * subjects present in `items`. Invalid entries are dropped and reported; a
+ * broken file leaves the dictionary empty rather than failing the load.
+ */
+function loadSynonyms(
+  dir: string,
+  items: BPSDataItem[],
+  hash: ReturnType<typeof createHash>,
+): { entries: SynonymEntry[]; issues: SynonymIssue[] } {
+  const file = path.join(dir, SYNONYMS_FILE);
+  if (!fs.existsSync(file)) return { entries: [], issues: [] };
+
+  const text = fs.readFileSync(file, "utf8");
+  hash.update(SYNONYMS_FILE).update(text);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return {
+      entries: [],
+      issues: [{ message: `Invalid JSON: ${(error as Error).message}` }],
+    };
+  }
+  const parsed = synonymFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      entries: [],
+      issues: [{ message: formatZodError(parsed.error) }],
+    };
+  }
+
+  // Positions in the file of the entries that passed the schema
+  const positions: number[] = [];
+  const candidates: SynonymEntry[] = [];
+  const issues: SynonymIssue[] = [];
+  parsed.data.entries.forEach((value, index) => {
+    const entry = synonymEntrySchema.safeParse(value);
+    if (entry.success) {
+      positions.push(index);
+      candidates.push(entry.data);
+    } else {
+      issues.push({ entry: index, message: formatZodError(entry.error) });
+    }
+  });
+
+  const validated = validateSynonyms(candidates, items);
+  issues.push(
+    ...validated.issues.map((issue) => ({
+      ...issue,
+      entry: positions[issue.entry],
+    })),
+  );
+  issues.sort((a, b) => a.entry - b.entry);
+  return { entries: validated.entries, issues };
+}
+
+/**
+ * Reads every `*.csv` file in `dir` (in name order) into one catalogue and
+ * records rejected rows, duplicate URLs, unknown subjects and unreadable
+ * dates, then loads the synonym dictionary. Throws when the directory is
+ * missing or holds no usable rows.
+ */
+export function loadCatalog(dir: string): CatalogSnapshot {
+  const hash = createHash("sha1");
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => file.toLowerCase().endsWith(".csv"))
+    .sort();
+
+  const items: BPSDataItem[] = [];
+  const issues: CatalogIssue[] = [];
+  const fileReports: CatalogReport["files"] = [];
+  const seenUrls = new Map<string, string>();
+
+  for (const file of files) {
+    const csv = fs.readFileSync(path.join(dir, file), "utf8");
+    hash.update(file).update(csv);
+
+    const parsed = parseCsvWithIssues(csv);
+    issues.push(...parsed.issues.map((issue) => ({ ...issue, file })));
+    fileReports.push({
+      file,
+      rows: parsed.rows,
+      accepted: parsed.items.length,
+    });
+
+    parsed.items.forEach((item, index) => {
+      const line = parsed.lines[index];
+      const first = seenUrls.get(item.url);
+      if (first) {
+        issues.push({
+          kind: "duplicate_url",
+          file,
+          line,
+          message: `Duplicate URL ${item.url} (first seen at ${first})`,
+        });
+      } else {
+        seenUrls.set(item.url, `${file}:${line}`);
+      }
+      items.push(item);
+    });
+  }
+
+  if (items.length === 0) {
+    throw new Error(`No catalogue rows found in ${dir}`);
+  }
+
+  const synonyms = loadSynonyms(dir, items, hash);
+
+  // Build the search index now so the swap makes it live together with the data
+  getSearchIndex(items);
+
+  const version = hash.digest("hex").slice(0, 16);
+  const loadedAt = new Date();
+  return {
+    items,
+    synonyms: synonyms.entries,
+    version,
+    loadedAt,
+    report: {
+      version,
+      loadedAt: loadedAt.toISOString(),
+      files: fileReports,
+      issues,
+      counts: countIssues(issues),
+      synonyms: {
+        entries: synonyms.entries.length,
+        issues: synonyms.issues,
+      },
+    },
+  };
+}
+
+const staticSnapshot = (): CatalogSnapshot => {
+  const loadedAt = new Date();
+  return {
+    items: bpsDataStatic,
+    synonyms: [],
+    version: "static",
+    loadedAt,
+    report: {
+      version: "static",
+      loadedAt: loadedAt.toISOString(),
+      files: [],
+      issues: [],
+      counts: countIssues([]),
+      synonyms: { entries: 0, issues: [] },
+    },
+  };
+};
+
+/**
+ * Re-reads CATALOG_DIR and swaps the active catalogue in one assignment, so
+ * requests see either the old or the new data, never a mix. On failure the
+ * previous catalogue stays active and the error shows up in the report.
+ */
+export function reloadCatalog(): CatalogSnapshot {
+  try {
+    snapshot = loadCatalog(getCatalogDir());
+    reloadError = undefined;
+  } catch (error) {
+    reloadError = {
+      message: (error as Error).message,
+      at: new Date().toISOString(),
+    };
+    if (!snapshot) {
+      console.warn(
+        `Catalogue not loaded (${reloadError.message}); using static subjects`,
+      );
+      snapshot = staticSnapshot();
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Returns the catalogue loaded from CATALOG_DIR (default `data/catalog`),
+ * falling back to the static subject list when it cannot be read.
+ */
+export function getCatalogSnapshot(): CatalogSnapshot {
+  return snapshot ?? reloadCatalog();
+}
+
+/** The BPS catalogue items; see {@link getCatalogSnapshot} */
+export function getCatalog(): BPSDataItem[] {
+  return getCatalogSnapshot().items;
+}
+
+/** Validation report of the active catalogue plus the last reload error */
+export function getCatalogReport(): CatalogReport {
+  return { ...getCatalogSnapshot().report, reloadError };
+}
+
+/**
+ * Reloads the catalogue whenever a file in CATALOG_DIR changes. Bursts of
+ * events (editors and `cp` write in several steps) are coalesced. Safe to call
+ * more than once; the watcher never keeps the process alive.
+ */
+export function watchCatalog(): void {
+  if (watcher) return;
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  try {
+    watcher = fs.watch(getCatalogDir(), () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        reloadCatalog();
+      }, RELOAD_DELAY_MS);
+      timer.unref();
+    });
+    watcher.unref();
+  } catch (error) {
+    console.warn(`Catalogue watch disabled: ${(error as Error).message}`);
+  }
+}
+
+/** Stops {@link watchCatalog}; used by tests */
+export function unwatchCatalog(): void {
+  watcher?.close();
+  watcher = null;
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { BPSDataItem } from "@shared/catalog";
+import { searchCatalog } from "../../shared/catalog";
+import { unscoredHit } from "../../shared/search";
+import { catalogItem } from "../../shared/testing/catalog";
+import { Embedder, loadEmbeddingConfig } from "../embeddings";
+import { getCatalog, getCatalogSnapshot } from "./catalog";
+import { blendRankings, hybridSearch, MIN_SIMILARITY } from "./hybrid";
+import { explainRetrieval, retrieveHybrid } from "./rag";
+import { buildVectorIndex, getVectorIndex, loadVectorIndex } from "./vectors";
+
+// Stand-in for a sentence-transformer: one dimension per concept, so texts
+// that phrase the same idea differently still end up close together
+const CONCEPTS = [
+  ["pengangguran", "menganggur", "tidak punya pekerjaan", "tidak bekerja"],
+  ["penduduk", "jiwa"],
+  ["inflasi", "harga konsumen"],
+];
+
+const createFakeEmbedder = (): Embedder & { calls: number } => ({
+  name: "fake",
+  model: "fake/concepts",
+  calls: 0,
+  async embed(texts) {
+    this.calls++;
+    return texts.map((text) => {
+      const lower = text.toLowerCase();
+      const vector = [
+        ...CONCEPTS.map((words) =>
+          words.some((w) => lower.includes(w)) ? 1 : 0,
+        ),
+        0.1,
+      ];
+      const norm = Math.hypot(...vector);
+      return vector.map((value) => value / norm);
+    });
+  },
+});
+
+const table = (title: string) =>
+  catalogItem(title, { subject_id: 520, description: "Tenaga Kerja" });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("blendRankings", () => {
+  const items = [table("A"), table("B"), table("C")];
+  const hit = (item: BPSDataItem, score: number) => ({
+    ...unscoredHit(item),
+    item,
+    score,
+  });
+
+  const ranked = (...args: Parameters<typeof blendRankings>) =>
+    blendRankings(...args).map((result) => result.item);
+
+  it("should weigh the scaled lexical score against the similarity", () => {
+    const lexical = [hit(items[0], 4), hit(items[1], 2)];
+
+    expect(blendRankings(items, lexical, [0.2, 0.9, 0], 0.5)).toEqual([
+      { item: items[1], lexical: 0.5, similarity: 0.9, score: 0.7 },
+      { item: items[0], lexical: 1, similarity: 0.2, score: 0.6 },
+    ]);
+    expect(ranked(items, lexical, [0.2, 0.9, 0], 0)).toEqual([
+      items[0],
+      items[1],
+    ]);
+  });
+
+  it("should only add embedding-only tables above the threshold", () => {
+    const similarities = [0, MIN_SIMILARITY - 0.01, MIN_SIMILARITY];
+
+    expect(ranked(items, [], similarities, 0.5)).toEqual([items[2]]);
+    expect(ranked(items, [], similarities, 0.5, () => false)).toEqual([]);
+  });
+});
+
+describe("hybridSearch", () => {
+  it("should connect a paraphrase to the unemployment rate", async () => {
+    const catalog = getCatalog();
+    const embedder = createFakeEmbedder();
+    const vectors = await buildVectorIndex(catalog, embedder, "test");
+    const question = "berapa orang yang tidak punya pekerjaan";
+
+    const lexical = searchCatalog(catalog, question);
+    const hybrid = await hybridSearch(catalog, question, {
+      embedder,
+      vectors,
+      weight: 0.5,
+    });
+
+    expect(lexical[0].title).not.toMatch(/Pengangguran/);
+    expect(hybrid[0].item.title).toMatch(/Tingkat Pengangguran Terbuka/);
+  });
+
+  it("should explain the blended order in debug mode", async () => {
+    const catalog = getCatalog();
+    const embedder = createFakeEmbedder();
+    const vectors = await buildVectorIndex(catalog, embedder, "test");
+    const question = "berapa orang yang tidak punya pekerjaan";
+
+    const { related, blended } = await retrieveHybrid(catalog, question, {
+      embedder,
+      vectors,
+      weight: 0.5,
+    });
+    const debug = explainRetrieval(
+      catalog,
+      question,
+      "hybrid",
+      [],
+      undefined,
+      blended,
+    );
+
+    expect(debug.hits.map((hit) => hit.url)).toEqual(
+      related.map((item) => item.url),
+    );
+    expect(debug.hits[0].similarity).toBeGreaterThan(0);
+    expect(debug.hits[0].blendedScore).toBe(blended[0].score);
+    const scores = debug.hits.map((hit) => hit.blendedScore);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it("should fall back to lexical retrieval when embedding fails", async () => {
+    const catalog = getCatalog();
+    const embedder = createFakeEmbedder();
+    const vectors = await buildVectorIndex(catalog, embedder, "test");
+    embedder.embed = () => Promise.reject(new Error("model missing"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { documents } = await retrieveHybrid(catalog, "inflasi", {
+      embedder,
+      vectors,
+      weight: 0.5,
+    });
+
+    expect(documents[0]).toBe(searchCatalog(catalog, "inflasi")[0]);
+  });
+});
+
+describe("catalogue vectors", () => {
+  let dir: string;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should embed in batches and reuse the cached vectors", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vectors-"));
+    const snapshot = getCatalogSnapshot();
+    const embedder = createFakeEmbedder();
+
+    const first = await loadVectorIndex(snapshot, embedder, dir);
+    const calls = embedder.calls;
+    const second = await loadVectorIndex(snapshot, embedder, dir);
+
+    expect(first.vectors).toHaveLength(snapshot.items.length);
+    expect(calls).toBe(Math.ceil(snapshot.items.length / 32));
+    expect(embedder.calls).toBe(calls);
+    expect(second).toEqual(first);
+  });
+
+  it("should still return the vectors when the cache is read-only", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vectors-"));
+    const blocker = path.join(dir, "file");
+    fs.writeFileSync(blocker, "");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const snapshot = getCatalogSnapshot();
+
+    const index = await loadVectorIndex(
+      snapshot,
+      createFakeEmbedder(),
+      path.join(blocker, "embeddings"),
+    );
+
+    expect(index.vectors).toHaveLength(snapshot.items.length);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("should cache next to the catalogue by default", () => {
+    expect(loadEmbeddingConfig({}).cacheDir).toBe(
+      path.join("data/catalog", "embeddings"),
+    );
+    expect(loadEmbeddingConfig({ CATALOG_DIR: "/srv/katalog" }).cacheDir).toBe(
+      path.join("/srv/katalog", "embeddings"),
+    );
+  });
+
+  it("should stay lexical until the vectors are ready", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vectors-"));
+    const snapshot = getCatalogSnapshot();
+    const embedder = createFakeEmbedder();
+
+    expect(getVectorIndex(snapshot, embedder, dir)).toBeNull();
+    await vi.waitFor(() =>
+      expect(getVectorIndex(snapshot, embedder, dir)).not.toBeNull(),
+    );
+    expect(getVectorIndex(snapshot, embedder, dir).version).toBe(
+      snapshot.version,
+    );
+  });
+});
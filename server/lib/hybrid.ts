@@ -0,0 +1,107 @@
+import {
+  BPSDataItem,
+  getTitleInfo,
+  searchCatalogDetailed,
+} from "../../shared/catalog";
+import { CatalogFilters } from "../../shared/filters";
+import { SearchHit } from "../../shared/search";
+import { SynonymEntry } from "../../shared/synonyms";
+import {
+  hasConstraints,
+  matchesConstraints,
+  parseQueryConstraints,
+} from "../../shared/tableTitle";
+import { Embedder } from "../embeddings";
+import { cosineSimilarity, VectorIndex } from "./vectors";
+
+/** Tables found only by the embedding need at least this similarity */
+export const MIN_SIMILARITY = 0.35;
+
+export interface HybridOptions {
+  embedder: Embedder;
+  vectors: VectorIndex;
+  /** Share of the cosine similarity in the blended score, 0..1 */
+  weight: number;
+  synonyms?: SynonymEntry[];
+  /** Applied to the blended ranking by `retrieveHybrid` */
+  filters?: CatalogFilters;
+}
+
+/** A table in the blended ranking with the scores that placed it */
+export interface BlendedHit {
+  item: BPSDataItem;
+  /** BM25F score scaled to 0..1 by the best hit; 0 without a lexical hit */
+  lexical: number;
+  /** Cosine similarity between the question and the table, at least 0 */
+  similarity: number;
+  /** `weight * similarity + (1 - weight) * lexical` */
+  score: number;
+}
+
+/**
+ * Blends lexical hits with per-item cosine similarities (aligned with
+ * `items`). Lexical scores are scaled to 0..1 by the best hit, so the blended
+ * score is `weight * similarity + (1 - weight) * lexical`. Tables without a
+ * lexical hit must reach {@link MIN_SIMILARITY} and pass `accept`.
+ */
+export function blendRankings(
+  items: BPSDataItem[],
+  lexical: SearchHit[],
+  similarities: number[],
+  weight: number,
+  accept: (item: BPSDataItem) => boolean = () => true,
+): BlendedHit[] {
+  const maxLexical = Math.max(0, ...lexical.map((hit) => hit.score));
+  const lexicalScores = new Map(
+    lexical.map((hit) => [
+      hit.item,
+      maxLexical > 0 ? hit.score / maxLexical : 0,
+    ]),
+  );
+
+  const blended: BlendedHit[] = [];
+  items.forEach((item, i) => {
+    const similarity = Math.max(similarities[i] ?? 0, 0);
+    const lexicalScore = lexicalScores.get(item);
+    if (lexicalScore === undefined) {
+      if (similarity < MIN_SIMILARITY || !accept(item)) return;
+    }
+    blended.push({
+      item,
+      lexical: lexicalScore ?? 0,
+      similarity,
+      score: weight * similarity + (1 - weight) * (lexicalScore ?? 0),
+    });
+  });
+
+  return blended.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Ranks the catalogue by both the BM25F score and the similarity between the
+ * question and each table's embedding, so paraphrases such as "orang yang
+ * tidak punya pekerjaan" still reach "Tingkat Pengangguran Terbuka". Year and
+ * breakdown constraints in the question also apply to embedding-only matches.
+ */
+export async function hybridSearch(
+  catalog: BPSDataItem[],
+  question: string,
+  options: HybridOptions,
+): Promise<BlendedHit[]> {
+  const lexical = searchCatalogDetailed(
+    catalog,
+    question,
+    options.synonyms,
+  ).hits;
+  const [queryVector] = await options.embedder.embed([question]);
+  const similarities = options.vectors.vectors.map((vector) =>
+    cosineSimilarity(queryVector, vector),
+  );
+
+  const constraints = parseQueryConstraints(question);
+  const accept = hasConstraints(constraints)
+    ? (item: BPSDataItem) => matchesConstraints(getTitleInfo(item), constraints)
+    : undefined;
+
+  return blendRankings(catalog, lexical, similarities, options.weight, accept);
+}
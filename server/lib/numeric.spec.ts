@@ -0,0 +1,400 @@
+import { describe, it, expect } from "vitest";
+import { Observation, tableToObservations } from "../../shared/observations";
+import { catalogItem } from "../../shared/testing/catalog";
+import {
+  answerNumeric,
+  computeNumeric,
+  detectAggregation,
+  matchDimensions,
+  NumericQuery,
+  planNumericQuery,
+} from "./numeric";
+
+const table = (rowNumber: number, title: string) =>
+  catalogItem(title, { row_number: rowNumber });
+
+const POPULATION = table(
+  4,
+  "Jumlah Penduduk Kota Medan Menurut Kecamatan (Jiwa), 2022 - 2023",
+);
+const POPULATION_BY_SEX = table(
+  5,
+  "Jumlah Penduduk Kota Medan Menurut Kecamatan dan Jenis Kelamin (Jiwa), 2023",
+);
+const SEX_RATIO = table(
+  1,
+  "Rasio Jenis Kelamin Penduduk Kota Medan Menurut Kecamatan (Persen), 2023",
+);
+const POOR_COUNT = table(
+  6,
+  "Jumlah Penduduk Miskin Kota Medan (Ribu Jiwa), 2022 - 2023",
+);
+const POOR_RATE = table(
+  7,
+  "Persentase Penduduk Miskin Kota Medan (Persen), 2022 - 2023",
+);
+const GROWTH_RATE = table(
+  8,
+  "Laju Pertumbuhan Penduduk Kota Medan Menurut Kecamatan (Persen), 2022 - 2023",
+);
+
+const TABLES = new Map<string, Observation[]>([
+  [
+    "519-4",
+    tableToObservations(
+      "519-4",
+      [
+        ["Kecamatan", "2022", "2023"],
+        ["Medan Tuntungan", "95.000", "96.000"],
+        ["Medan Johor", "150.000", "150.000"],
+        ["Medan Kota", "55.000", "54.000"],
+        ["Kota Medan", "300.000", "300.000"],
+      ],
+      { unit: "Jiwa" },
+    ).observations,
+  ],
+  [
+    // Seperti ekspor BPS: kolom per jenis kelamin tanpa kolom jumlah
+    "519-5",
+    tableToObservations(
+      "519-5",
+      [
+        ["Kecamatan", "Tahun", "Laki-laki", "Perempuan"],
+        ["Medan Tuntungan", "2023", "48.000", "49.500"],
+        ["Medan Johor", "2023", "75.000", "76.000"],
+        ["Kota Medan", "2023", "1.200.000", "1.220.000"],
+      ],
+      { unit: "Jiwa", columnDimension: "Jenis Kelamin" },
+    ).observations,
+  ],
+  [
+    "519-1",
+    tableToObservations(
+      "519-1",
+      [
+        ["Kecamatan", "2023"],
+        ["Medan Tuntungan", "97,5"],
+        ["Medan Johor", "101,25"],
+        ["Kota Medan", "99"],
+      ],
+      { unit: "Persen" },
+    ).observations,
+  ],
+  [
+    "519-6",
+    tableToObservations(
+      "519-6",
+      [
+        ["Wilayah", "2022", "2023"],
+        ["Kota Medan", "194,75", "196,31"],
+      ],
+      { unit: "Ribu Jiwa" },
+    ).observations,
+  ],
+  [
+    "519-7",
+    tableToObservations(
+      "519-7",
+      [
+        ["Wilayah", "2022", "2023"],
+        ["Kota Medan", "8,07", "8,0"],
+      ],
+      { unit: "Persen" },
+    ).observations,
+  ],
+  [
+    "519-8",
+    tableToObservations(
+      "519-8",
+      [
+        ["Kecamatan", "2022", "2023"],
+        ["Medan Tuntungan", "1,2", "1,5"],
+        ["Kota Medan", "0,9", "1,0"],
+      ],
+      { unit: "Persen" },
+    ).observations,
+  ],
+]);
+
+const query = (overrides: Partial<NumericQuery>): NumericQuery => ({
+  tableId: "519-4",
+  aggregation: "value",
+  filters: {},
+  groupBy: "kecamatan",
+  startYear: null,
+  endYear: null,
+  ...overrides,
+});
+
+describe("detectAggregation", () => {
+  it("should read the aggregation from keywords", () => {
+    expect(detectAggregation("jumlah penduduk Medan Tuntungan 2023")).toBe(
+      "value",
+    );
+    expect(detectAggregation("kecamatan dengan rasio tertinggi")).toBe("max");
+    expect(detectAggregation("kecamatan paling sedikit penduduknya")).toBe(
+      "min",
+    );
+    expect(detectAggregation("pertumbuhan penduduk Medan Johor")).toBe(
+      "growth",
+    );
+    expect(detectAggregation("persentase penduduk Medan Kota")).toBe("share");
+    expect(detectAggregation("total penduduk seluruh kecamatan")).toBe("sum");
+  });
+
+  it("should not read words of the table title as keywords", () => {
+    const question = "laju pertumbuhan penduduk Medan Tuntungan 2023";
+
+    expect(detectAggregation(question)).toBe("growth");
+    expect(detectAggregation(question, GROWTH_RATE.title)).toBe("value");
+    expect(
+      detectAggregation("persentase penduduk miskin 2023", POOR_RATE.title),
+    ).toBe("value");
+  });
+});
+
+describe("matchDimensions", () => {
+  it("should match whole dimension values, the longest first", () => {
+    const observations = tableToObservations("x", [
+      ["Kecamatan", "Jenis Kelamin", "Nilai"],
+      ["Medan", "L", "1"],
+      ["Medan Kota", "P", "2"],
+    ]).observations;
+
+    expect(matchDimensions("penduduk wanita medan kota", observations)).toEqual(
+      { kecamatan: "Medan Kota", jenis_kelamin: "Perempuan" },
+    );
+    expect(matchDimensions("penduduk kota", observations)).toEqual({});
+  });
+});
+
+describe("computeNumeric", () => {
+  const population = TABLES.get("519-4");
+  const populationBySex = TABLES.get("519-5");
+  const sexRatio = TABLES.get("519-1");
+
+  it("should return the value of the named dimension in the latest year", () => {
+    expect(
+      computeNumeric(
+        query({ filters: { kecamatan: "Medan Tuntungan" } }),
+        population,
+      ),
+    ).toEqual({
+      aggregation: "value",
+      value: 96000,
+      unit: "Jiwa",
+      year: 2023,
+      label: "Medan Tuntungan",
+    });
+  });
+
+  it("should use the total row when no dimension value is named", () => {
+    expect(
+      computeNumeric(query({ startYear: 2022, endYear: 2022 }), population)
+        ?.value,
+    ).toBe(300000);
+  });
+
+  it("should sum, maximise and minimise over the grouping dimension", () => {
+    expect(
+      computeNumeric(query({ aggregation: "sum" }), population)?.value,
+    ).toBe(300000);
+    expect(
+      computeNumeric(query({ aggregation: "max" }), population),
+    ).toMatchObject({ label: "Medan Johor", value: 150000 });
+    expect(
+      computeNumeric(query({ aggregation: "min" }), population),
+    ).toMatchObject({ label: "Medan Kota", value: 54000 });
+  });
+
+  it("should compute growth from the previous or the named year", () => {
+    const growth = computeNumeric(
+      query({
+        aggregation: "growth",
+        filters: { kecamatan: "Medan Kota" },
+      }),
+      population,
+    );
+
+    expect(growth?.base).toEqual({ value: 55000, year: 2022 });
+    expect(growth?.percent).toBeCloseTo(-1.818, 3);
+  });
+
+  it("should compute the share of the total", () => {
+    const share = computeNumeric(
+      query({
+        aggregation: "share",
+        filters: { kecamatan: "Medan Johor" },
+        endYear: 2023,
+      }),
+      population,
+    );
+
+    expect(share?.base).toEqual({ value: 300000, year: 2023 });
+    expect(share?.percent).toBe(50);
+  });
+
+  it("should add up a breakdown without a total row", () => {
+    expect(
+      computeNumeric(
+        query({ filters: { kecamatan: "Medan Tuntungan" } }),
+        populationBySex,
+      ),
+    ).toMatchObject({ value: 97500, unit: "Jiwa" });
+    expect(
+      computeNumeric(query({ aggregation: "max" }), populationBySex),
+    ).toMatchObject({ label: "Medan Johor", value: 151000 });
+    expect(
+      computeNumeric(
+        query({ filters: { jenis_kelamin: "Perempuan" } }),
+        populationBySex,
+      )?.value,
+    ).toBe(1220000);
+  });
+
+  it("should not add up percentages or ratios", () => {
+    expect(computeNumeric(query({ aggregation: "sum" }), sexRatio)).toBeNull();
+    expect(
+      computeNumeric(
+        query({
+          aggregation: "share",
+          filters: { kecamatan: "Medan Johor" },
+        }),
+        sexRatio,
+      ),
+    ).toBeNull();
+  });
+
+  it("should give nothing for years the table does not cover", () => {
+    expect(computeNumeric(query({ endYear: 2019 }), population)).toBeNull();
+    expect(
+      computeNumeric(
+        query({ aggregation: "growth", startYear: 2019, endYear: 2023 }),
+        population,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("planNumericQuery", () => {
+  it("should keep tables whose measure the question names, the most specific first", () => {
+    const plans = planNumericQuery(
+      "penduduk Medan Kota 2023",
+      [SEX_RATIO, POPULATION_BY_SEX, POPULATION, table(9, "Tanpa observasi")],
+      TABLES,
+    );
+
+    expect(plans.map((plan) => plan.query.tableId)).toEqual(["519-4", "519-5"]);
+    expect(plans[0].query).toMatchObject({
+      filters: { kecamatan: "Medan Kota" },
+      startYear: 2023,
+    });
+  });
+
+  it("should skip questions that ask for no number", () => {
+    expect(planNumericQuery("data penduduk", [POPULATION], TABLES)).toEqual([]);
+  });
+});
+
+describe("answerNumeric", () => {
+  it("should answer with the value, unit, year and table", () => {
+    const answer = answerNumeric(
+      "jumlah penduduk Medan Tuntungan 2023",
+      [POPULATION],
+      TABLES,
+    );
+
+    expect(answer?.item).toBe(POPULATION);
+    expect(answer?.text).toBe(
+      `Berdasarkan tabel "${POPULATION.title}", nilai untuk Medan Tuntungan pada tahun 2023 adalah **96.000 Jiwa**.`,
+    );
+  });
+
+  it("should answer from the table whose measure the question names", () => {
+    const answer = answerNumeric(
+      "jumlah penduduk Medan Tuntungan 2023",
+      [SEX_RATIO, POPULATION_BY_SEX],
+      TABLES,
+    );
+
+    expect(answer?.item).toBe(POPULATION_BY_SEX);
+    expect(answer?.text).toBe(
+      `Berdasarkan tabel "${POPULATION_BY_SEX.title}", nilai untuk Medan Tuntungan pada tahun 2023 adalah **97.500 Jiwa**.`,
+    );
+    expect(
+      answerNumeric(
+        "kecamatan dengan rasio jenis kelamin tertinggi",
+        [POPULATION_BY_SEX, SEX_RATIO],
+        TABLES,
+      )?.item,
+    ).toBe(SEX_RATIO);
+  });
+
+  it("should answer from the table of the kind of measure asked for", () => {
+    const rate = answerNumeric(
+      "persentase penduduk miskin tahun 2023",
+      [POOR_COUNT, POOR_RATE],
+      TABLES,
+    );
+
+    expect(rate?.item).toBe(POOR_RATE);
+    expect(rate?.result).toMatchObject({ value: 8, unit: "Persen" });
+    expect(
+      answerNumeric(
+        "jumlah penduduk miskin 2023",
+        [POOR_RATE, POOR_COUNT],
+        TABLES,
+      )?.item,
+    ).toBe(POOR_COUNT);
+    expect(
+      answerNumeric("persentase penduduk miskin 2023", [POOR_COUNT], TABLES),
+    ).toBeNull();
+    expect(
+      answerNumeric("penduduk miskin 2023", [POOR_COUNT, POOR_RATE], TABLES),
+    ).toBeNull();
+  });
+
+  it("should give the value of a growth rate table", () => {
+    const answer = answerNumeric(
+      "laju pertumbuhan penduduk kecamatan medan tuntungan 2023",
+      [GROWTH_RATE],
+      TABLES,
+    );
+
+    expect(answer?.text).toBe(
+      `Berdasarkan tabel "${GROWTH_RATE.title}", nilai untuk Medan Tuntungan pada tahun 2023 adalah **1,5 Persen**.`,
+    );
+  });
+
+  it("should not total a ratio table", () => {
+    expect(
+      answerNumeric(
+        "total rasio jenis kelamin semua kecamatan",
+        [SEX_RATIO],
+        TABLES,
+      ),
+    ).toBeNull();
+  });
+
+  it("should name the district with the highest value", () => {
+    const answer = answerNumeric(
+      "kecamatan dengan rasio jenis kelamin tertinggi",
+      [SEX_RATIO],
+      TABLES,
+    );
+
+    expect(answer?.text).toBe(
+      `Berdasarkan tabel "${SEX_RATIO.title}", kecamatan dengan nilai tertinggi pada tahun 2023 adalah **Medan Johor** (101,25 Persen).`,
+    );
+  });
+
+  it("should give nothing when no table can answer", () => {
+    expect(
+      answerNumeric(
+        "jumlah penduduk Medan Tuntungan 2019",
+        [POPULATION],
+        TABLES,
+      ),
+    ).toBeNull();
+  });
+});
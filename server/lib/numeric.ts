@@ -0,0 +1,515 @@
+import { BPSDataItem, getTableId, getTitleInfo } from "../../shared/catalog";
+import {
+  dimensionKey,
+  normalizeDimensionValue,
+  Observation,
+  TOTAL_VALUE,
+} from "../../shared/observations";
+import { normalizeText, tokenize } from "../../shared/search";
+import { stem } from "../../shared/stemmer";
+import { parseQueryConstraints } from "../../shared/tableTitle";
+
+/** How the observations of a table are combined into one number */
+export type Aggregation = "value" | "sum" | "max" | "min" | "growth" | "share";
+
+/** A numeric question mapped onto one table */
+export interface NumericQuery {
+  tableId: string;
+  aggregation: Aggregation;
+  /** Dimension values named in the question, e.g. { kecamatan: "Medan Tuntungan" } */
+  filters: Record<string, string>;
+  /** Dimension compared by max/min and summed by sum */
+  groupBy: string | null;
+  startYear: number | null;
+  endYear: number | null;
+}
+
+export interface NumericResult {
+  aggregation: Aggregation;
+  /** The value asked for; the later value for growth and the part for share */
+  value: number;
+  unit: string | null;
+  year: number | null;
+  /** Dimension values the value belongs to; the winner for max/min */
+  label: string;
+  /** Growth: the earlier value; share: the whole */
+  base?: { value: number; year: number | null };
+  /** Growth: percentage change from `base`; share: percentage of `base` */
+  percent?: number;
+}
+
+export interface NumericAnswer {
+  item: BPSDataItem;
+  query: NumericQuery;
+  result: NumericResult;
+  text: string;
+}
+
+const AGGREGATION_PATTERNS: [Aggregation, RegExp][] = [
+  [
+    "growth",
+    /\b(pertumbuhan|laju|kenaikan|penurunan|perubahan|naik|turun|growth)\b/,
+  ],
+  [
+    "share",
+    /\b(persentase|proporsi|porsi|pangsa|kontribusi|share)\b|\bpersen dari\b/,
+  ],
+  [
+    "max",
+    /\b(tertinggi|terbesar|terbanyak|terpadat|maksimum|paling (tinggi|besar|banyak))\b/,
+  ],
+  [
+    "min",
+    /\b(terendah|terkecil|tersedikit|minimum|paling (rendah|kecil|sedikit))\b/,
+  ],
+  ["sum", /\b(total|seluruh|semua|gabungan)\b/],
+];
+
+const QUANTITY_WORDS = /\b(berapa|nilai|angka)\b/;
+
+const numberFormat = new Intl.NumberFormat("id-ID", {
+  maximumFractionDigits: 2,
+});
+
+const words = (text: string): string[] =>
+  normalizeText(text).split(" ").filter(Boolean);
+
+const containsPhrase = (haystack: string[], phrase: string[]): boolean =>
+  phrase.length > 0 &&
+  ` ${haystack.join(" ")} `.includes(` ${phrase.join(" ")} `);
+
+/**
+ * The aggregation asked for by keywords such as "tertinggi" or "pertumbuhan".
+ * Words of the table's own title are not keywords, so "laju pertumbuhan
+ * penduduk" asks for the value of the Laju Pertumbuhan table.
+ */
+export const detectAggregation = (
+  question: string,
+  title = "",
+): Aggregation => {
+  const titleWords = new Set(words(title));
+  const text = words(question)
+    .filter((word) => !titleWords.has(word))
+    .join(" ");
+  return (
+    AGGREGATION_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ??
+    "value"
+  );
+};
+
+/** Distinct non-total values per dimension key, in file order */
+const dimensionValues = (
+  observations: Observation[],
+): Map<string, string[]> => {
+  const values = new Map<string, Set<string>>();
+  for (const observation of observations) {
+    for (const [key, value] of Object.entries(observation.dimensions)) {
+      if (!values.has(key)) values.set(key, new Set());
+      if (value !== TOTAL_VALUE) values.get(key).add(value);
+    }
+  }
+  return new Map([...values].map(([key, set]) => [key, [...set]]));
+};
+
+/**
+ * Dimension values named in the question, the longest per dimension, so
+ * "Medan Tuntungan" wins over a shorter value contained in it. Single words
+ * are also read as a value ("wanita" -> "Perempuan").
+ */
+export const matchDimensions = (
+  question: string,
+  observations: Observation[],
+): Record<string, string> => {
+  const questionWords = words(question);
+  const filters: Record<string, string> = {};
+
+  for (const [key, values] of dimensionValues(observations)) {
+    let best: string | undefined;
+    let bestLength = 0;
+    for (const value of values) {
+      const phrase = words(value);
+      const named =
+        containsPhrase(questionWords, phrase) ||
+        questionWords.some(
+          (word) => normalizeDimensionValue(key, word) === value,
+        );
+      if (named && phrase.length > bestLength) {
+        best = value;
+        bestLength = phrase.length;
+      }
+    }
+    if (best !== undefined) filters[key] = best;
+  }
+  return filters;
+};
+
+/**
+ * The first dimension named in the question ("kecamatan", "umur") that is not
+ * already filtered, else the first one with several values.
+ */
+const findGroupBy = (
+  question: string,
+  observations: Observation[],
+  filters: Record<string, string>,
+): string | null => {
+  const open = [...dimensionValues(observations)]
+    .filter(([key, values]) => !(key in filters) && values.length > 1)
+    .map(([key]) => key);
+  const questionWords = words(question);
+  for (let i = 0; i < questionWords.length; i++) {
+    for (const name of [
+      questionWords.slice(i, i + 2).join(" "),
+      questionWords[i],
+    ]) {
+      const key = dimensionKey(name);
+      if (open.includes(key)) return key;
+    }
+  }
+  return open[0] ?? null;
+};
+
+/**
+ * Share of the words of a table's measure ("Rasio Jenis Kelamin Penduduk")
+ * that the question names, compared by stem
+ */
+const measureScore = (question: string, item: BPSDataItem): number => {
+  const terms = new Set(tokenize(getTitleInfo(item).measure).map(stem));
+  if (terms.size === 0) return 0;
+  const asked = new Set(tokenize(question).map(stem));
+  return [...terms].filter((term) => asked.has(term)).length / terms.size;
+};
+
+/** Below this a table measures something the question does not ask about */
+const MIN_MEASURE_SCORE = 0.5;
+
+/** Leading measure words that tell tables of one topic apart */
+const MEASURE_KINDS = new Set([
+  "jumlah",
+  "banyaknya",
+  "persentase",
+  "proporsi",
+  "rasio",
+  "laju",
+  "indeks",
+  "rata",
+  "kepadatan",
+  "tingkat",
+]);
+
+const measureKind = (item: BPSDataItem): string | null => {
+  const [first] = words(getTitleInfo(item).measure);
+  return MEASURE_KINDS.has(first) ? first : null;
+};
+
+/**
+ * Keeps the tables whose kind of measure ("Jumlah", "Persentase", ...) the
+ * question names. Otherwise a named kind rules out tables of another kind,
+ * unless it is an aggregation keyword ("persentase" of a Jumlah table), and
+ * without a named kind the tables must not disagree on theirs.
+ */
+const byMeasureKind = <T extends { kind: string | null }>(
+  question: string,
+  plans: T[],
+): T[] => {
+  const named = words(question).filter((word) => MEASURE_KINDS.has(word));
+  const measured = plans.filter((plan) => named.includes(plan.kind));
+  if (measured.length > 0) return measured;
+  if (named.some((kind) => detectAggregation(kind) === "value")) {
+    return plans.filter((plan) => plan.kind === null);
+  }
+  const kinds = new Set(plans.map((plan) => plan.kind).filter(Boolean));
+  return kinds.size > 1 ? [] : plans;
+};
+
+/**
+ * Maps a question onto each candidate table with observations whose measure
+ * the question names, best matching measure first, then tables whose
+ * dimension values the question names. Gives nothing when the question asks
+ * for no number: no aggregation keyword, dimension value, year or "berapa".
+ */
+export function planNumericQuery(
+  question: string,
+  candidates: BPSDataItem[],
+  tables: Map<string, Observation[]>,
+): { item: BPSDataItem; query: NumericQuery }[] {
+  const { startYear, endYear } = parseQueryConstraints(question);
+
+  const plans = candidates
+    .filter((item) => tables.has(getTableId(item)))
+    .map((item) => {
+      const aggregation = detectAggregation(question, item.title);
+      const observations = tables.get(getTableId(item));
+      const filters = matchDimensions(question, observations);
+      const query: NumericQuery = {
+        tableId: getTableId(item),
+        aggregation,
+        filters,
+        groupBy: findGroupBy(question, observations, filters),
+        startYear,
+        endYear,
+      };
+      return {
+        item,
+        query,
+        score: measureScore(question, item),
+        kind: measureKind(item),
+      };
+    })
+    .filter(
+      ({ query, score }) =>
+        score >= MIN_MEASURE_SCORE &&
+        (query.aggregation !== "value" ||
+          Object.keys(query.filters).length > 0 ||
+          startYear !== null ||
+          QUANTITY_WORDS.test(normalizeText(question))),
+    );
+
+  // Stable sort keeps the retrieval order between equally matching tables
+  return byMeasureKind(question, plans)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        Object.keys(b.query.filters).length -
+          Object.keys(a.query.filters).length,
+    )
+    .map(({ item, query }) => ({ item, query }));
+}
+
+const yearsOf = (observations: Observation[]): (number | null)[] =>
+  [...new Set(observations.map((observation) => observation.year))].sort(
+    (a, b) => (a ?? 0) - (b ?? 0),
+  );
+
+/**
+ * Observations of `year` with every dimension pinned: filtered ones to the
+ * named value and the rest to their total row when the table has one. The
+ * `open` dimension is left free.
+ */
+const select = (
+  observations: Observation[],
+  filters: Record<string, string>,
+  year: number | null,
+  open?: string,
+): Observation[] => {
+  const totals = new Set(
+    observations.flatMap((observation) =>
+      Object.entries(observation.dimensions)
+        .filter(([, value]) => value === TOTAL_VALUE)
+        .map(([key]) => key),
+    ),
+  );
+  return observations.filter(
+    (observation) =>
+      observation.year === year &&
+      Object.entries(observation.dimensions).every(
+        ([key, value]) =>
+          key === open ||
+          (key in filters
+            ? filters[key] === value
+            : !totals.has(key) || value === TOTAL_VALUE),
+      ),
+  );
+};
+
+// Units whose values add up across a breakdown; percentages, ratios, indices
+// and densities do not
+const ADDITIVE_UNIT =
+  /^(?:(?:ribu|juta) )?(?:jiwa|orang|rumah tangga|rt|kk|unit|buah|ton|ha|hektar)$|^(?:(?:ribu|juta|milyar|miliar) )?rupiah$/i;
+
+const isAdditiveUnit = (unit: string | null): boolean =>
+  unit !== null && ADDITIVE_UNIT.test(unit.trim());
+
+/**
+ * One number for a selection: its single observation, or the sum over the
+ * breakdowns left open because the table has no total row for them (e.g.
+ * Laki-laki + Perempuan) when the unit adds up. `null` when ambiguous.
+ */
+const valueOf = (
+  rows: Observation[],
+): { value: number; unit: string | null } | null => {
+  if (rows.length === 1) return { value: rows[0].value, unit: rows[0].unit };
+  const units = new Set(rows.map((row) => row.unit));
+  if (rows.length === 0 || units.size > 1 || !isAdditiveUnit(rows[0].unit)) {
+    return null;
+  }
+  return {
+    value: rows.reduce((sum, row) => sum + row.value, 0),
+    unit: rows[0].unit,
+  };
+};
+
+const describeFilters = (filters: Record<string, string>): string =>
+  Object.values(filters)
+    .filter((value) => value !== TOTAL_VALUE)
+    .join(", ");
+
+/**
+ * Computes a numeric query over the observations of its table. Returns `null`
+ * when the table has no single value for the question, e.g. a year it does
+ * not cover, a breakdown the question leaves open, or a sum or share of
+ * percentages and ratios.
+ */
+export function computeNumeric(
+  query: NumericQuery,
+  observations: Observation[],
+): NumericResult | null {
+  const { aggregation, filters, groupBy } = query;
+  const years = yearsOf(observations);
+  const latest = years[years.length - 1] ?? null;
+  const year = query.endYear ?? latest;
+  if (!years.includes(year)) return null;
+  const label = describeFilters(filters);
+
+  switch (aggregation) {
+    case "value": {
+      const found = valueOf(select(observations, filters, year));
+      return found && { aggregation, ...found, year, label };
+    }
+    case "sum":
+    case "max":
+    case "min": {
+      if (!groupBy) return null;
+      const groups = new Map<string, Observation[]>();
+      for (const row of select(observations, filters, year, groupBy)) {
+        const value = row.dimensions[groupBy];
+        if (value === undefined || value === TOTAL_VALUE) continue;
+        groups.set(value, [...(groups.get(value) ?? []), row]);
+      }
+      const values = [...groups].map(([name, rows]) => ({
+        name,
+        found: valueOf(rows),
+      }));
+      if (values.length === 0 || values.some(({ found }) => !found)) {
+        return null;
+      }
+
+      if (aggregation === "sum") {
+        const units = new Set(values.map(({ found }) => found.unit));
+        if (units.size > 1 || !isAdditiveUnit(values[0].found.unit)) {
+          return null;
+        }
+        return {
+          aggregation,
+          value: values.reduce((sum, { found }) => sum + found.value, 0),
+          unit: values[0].found.unit,
+          year,
+          label,
+        };
+      }
+      const best = values.reduce((a, b) =>
+        (
+          aggregation === "max"
+            ? b.found.value > a.found.value
+            : b.found.value < a.found.value
+        )
+          ? b
+          : a,
+      );
+      return { aggregation, ...best.found, year, label: best.name };
+    }
+    case "growth": {
+      const from =
+        query.startYear !== null && query.startYear !== query.endYear
+          ? query.startYear
+          : years.filter((y) => y !== null && y < year).pop();
+      if (from === undefined || !years.includes(from)) return null;
+      const before = valueOf(select(observations, filters, from));
+      const after = valueOf(select(observations, filters, year));
+      if (!before || !after || before.value === 0) return null;
+      return {
+        aggregation,
+        value: after.value,
+        unit: after.unit,
+        year,
+        label,
+        base: { value: before.value, year: from },
+        percent: ((after.value - before.value) / before.value) * 100,
+      };
+    }
+    case "share": {
+      const [key] = Object.keys(filters).filter(
+        (name) => filters[name] !== TOTAL_VALUE,
+      );
+      if (!key) return null;
+      // Without `key` the whole is its total row, or the sum of its values
+      const { [key]: _part, ...rest } = filters;
+      const part = valueOf(select(observations, filters, year));
+      const whole = valueOf(select(observations, rest, year));
+      if (!part || !whole || whole.value === 0) return null;
+      if (!isAdditiveUnit(part.unit) || part.unit !== whole.unit) return null;
+      return {
+        aggregation,
+        value: part.value,
+        unit: part.unit,
+        year,
+        label,
+        base: { value: whole.value, year },
+        percent: (part.value / whole.value) * 100,
+      };
+    }
+  }
+}
+
+const formatValue = (value: number, unit: string | null): string =>
+  [numberFormat.format(value), unit].filter(Boolean).join(" ");
+
+const inYear = (year: number | null): string =>
+  year !== null ? ` pada tahun ${year}` : "";
+
+/** The reply for a computed result, naming the value, unit, year and table */
+export const formatNumericAnswer = (
+  item: BPSDataItem,
+  query: NumericQuery,
+  result: NumericResult,
+): string => {
+  const value = formatValue(result.value, result.unit);
+  const subject = result.label || "Kota Medan";
+  const groupName = query.groupBy?.replace(/_/g, " ") ?? "";
+  let sentence: string;
+
+  switch (result.aggregation) {
+    case "value":
+      sentence = `nilai untuk ${subject}${inYear(result.year)} adalah **${value}**`;
+      break;
+    case "sum":
+      sentence = `jumlah seluruh ${groupName}${result.label ? ` (${result.label})` : ""}${inYear(result.year)} adalah **${value}**`;
+      break;
+    case "max":
+    case "min":
+      sentence = `${groupName} dengan nilai ${result.aggregation === "max" ? "tertinggi" : "terendah"}${inYear(result.year)} adalah **${result.label}** (${value})`;
+      break;
+    case "growth": {
+      const change =
+        result.percent > 0 ? "naik" : result.percent < 0 ? "turun" : "tetap";
+      sentence = `nilai untuk ${subject} ${change} ${numberFormat.format(Math.abs(result.percent))}% dari ${formatValue(result.base.value, result.unit)} (${result.base.year}) menjadi **${value}** (${result.year})`;
+      break;
+    }
+    case "share":
+      sentence = `${subject} sebesar ${value} atau **${numberFormat.format(result.percent)}%** dari total ${formatValue(result.base.value, result.unit)}${inYear(result.year)}`;
+      break;
+  }
+  return `Berdasarkan tabel "${item.title}", ${sentence}.`;
+};
+
+/**
+ * Answers a quantitative question from the observations of the retrieved
+ * tables, or returns `null` so the question goes to the LLM instead.
+ */
+export function answerNumeric(
+  question: string,
+  documents: BPSDataItem[],
+  tables: Map<string, Observation[]>,
+): NumericAnswer | null {
+  for (const { item, query } of planNumericQuery(question, documents, tables)) {
+    const result = computeNumeric(query, tables.get(query.tableId));
+    if (result) {
+      return {
+        item,
+        query,
+        result,
+        text: formatNumericAnswer(item, query, result),
+      };
+    }
+  }
+  return null;
+}
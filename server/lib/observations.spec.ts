@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { utils as sheetUtils, write as writeWorkbook } from "xlsx";
+import { catalogItem } from "../../shared/testing/catalog";
+import { reloadCatalog } from "./catalog";
+import {
+  describeObservationTable,
+  getObservationSnapshot,
+  loadObservations,
+  reloadObservations,
+} from "./observations";
+
+const table = (rowNumber: number, title: string) =>
+  catalogItem(title, { row_number: rowNumber });
+
+const ITEMS = [
+  table(
+    1,
+    "Jumlah Penduduk Kota Medan Menurut Kecamatan dan Jenis Kelamin (Jiwa), 2024",
+  ),
+  table(2, "Rasio Jenis Kelamin Menurut Kecamatan (Persen), 2022 - 2023"),
+];
+
+describe("loadObservations", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "observations-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should name wide value columns after the title breakdown", async () => {
+    fs.writeFileSync(
+      path.join(dir, "519-1.csv"),
+      [
+        "Kecamatan,Laki-laki,Perempuan",
+        'Medan Tuntungan,"48.000","49.500"',
+      ].join("\n"),
+    );
+
+    const { observations, tables, report } = await loadObservations(dir, ITEMS);
+
+    expect(report.issues).toEqual([]);
+    expect(report.files).toEqual([
+      { file: "519-1.csv", tableId: "519-1", observations: 2 },
+    ]);
+    expect(observations[1]).toEqual({
+      tableId: "519-1",
+      dimensions: { kecamatan: "Medan Tuntungan", jenis_kelamin: "Perempuan" },
+      year: null,
+      unit: "Jiwa",
+      value: 49500,
+    });
+    expect(tables.get("519-1")).toHaveLength(2);
+  });
+
+  it("should read JSON records with their own unit", async () => {
+    fs.writeFileSync(
+      path.join(dir, "519-2.json"),
+      JSON.stringify({
+        unit: "Rasio",
+        observations: [
+          { kecamatan: "Medan Johor", tahun: 2023, nilai: "98,7" },
+          { kecamatan: "Medan Johor", tahun: 2022, nilai: 99.1 },
+        ],
+      }),
+    );
+
+    const { observations } = await loadObservations(dir, ITEMS);
+
+    expect(observations.map((o) => [o.year, o.unit, o.value])).toEqual([
+      [2023, "Rasio", 98.7],
+      [2022, "Rasio", 99.1],
+    ]);
+  });
+
+  it("should keep JSON numbers as numbers", async () => {
+    fs.writeFileSync(
+      path.join(dir, "519-2.json"),
+      JSON.stringify([
+        { kecamatan: "Medan Johor", tahun: 2023, nilai: 102.345 },
+        { kecamatan: "Medan Johor", tahun: 2022, nilai: "102.345" },
+      ]),
+    );
+
+    const { observations } = await loadObservations(dir, ITEMS);
+
+    expect(observations.map((o) => o.value)).toEqual([102.345, 102345]);
+  });
+
+  it("should read the first sheet of an .xlsx export", async () => {
+    const workbook = sheetUtils.book_new();
+    sheetUtils.book_append_sheet(
+      workbook,
+      sheetUtils.aoa_to_sheet([
+        ["Kecamatan", "2022", "2023"],
+        ["Medan Johor", 99.5, "98,7"],
+        ["Kota Medan", 100, 99],
+      ]),
+      "Tabel",
+    );
+    fs.writeFileSync(
+      path.join(dir, "519-2.xlsx"),
+      writeWorkbook(workbook, { type: "buffer", bookType: "xlsx" }),
+    );
+
+    const { observations, report } = await loadObservations(dir, ITEMS);
+
+    expect(report.issues).toEqual([]);
+    expect(
+      observations.map((o) => [o.dimensions.kecamatan, o.year, o.value]),
+    ).toEqual([
+      ["Medan Johor", 2022, 99.5],
+      ["Medan Johor", 2023, 98.7],
+      ["Jumlah", 2022, 100],
+      ["Jumlah", 2023, 99],
+    ]);
+    expect(observations[0].unit).toBe("Persen");
+  });
+
+  it("should read formatted .xlsx numbers as stored", async () => {
+    const sheet = sheetUtils.aoa_to_sheet([
+      ["Kecamatan", "2023"],
+      ["Medan Johor", 1234],
+      ["Kota Medan", 98765],
+    ]);
+    sheet.B2.z = "#,##0";
+    sheet.B3.z = "#,##0";
+    const workbook = sheetUtils.book_new();
+    sheetUtils.book_append_sheet(workbook, sheet, "Tabel");
+    fs.writeFileSync(
+      path.join(dir, "519-1.xlsx"),
+      writeWorkbook(workbook, { type: "buffer", bookType: "xlsx" }),
+    );
+
+    const { observations } = await loadObservations(dir, ITEMS);
+
+    expect(observations.map((o) => o.value)).toEqual([1234, 98765]);
+  });
+
+  it("should report unknown tables, bad files and duplicates", async () => {
+    fs.writeFileSync(path.join(dir, "999-1.csv"), "Kecamatan,2024\nA,1");
+    fs.writeFileSync(path.join(dir, "519-1.json"), "{");
+    fs.writeFileSync(
+      path.join(dir, "519-2.csv"),
+      ["Kecamatan,2023", "Medan Johor,98", "Medan Johor,97"].join("\n"),
+    );
+    fs.writeFileSync(path.join(dir, "notes.txt"), "ignored");
+
+    const { observations, report } = await loadObservations(dir, ITEMS);
+
+    expect(observations.map((o) => o.value)).toEqual([98]);
+    expect(report.files).toEqual([
+      { file: "519-2.csv", tableId: "519-2", observations: 1 },
+    ]);
+    expect(report.issues.map((issue) => issue.file)).toEqual([
+      "519-1.json",
+      "519-2.csv",
+      "999-1.csv",
+    ]);
+    expect(report.issues[0].message).toMatch(/^Invalid JSON/);
+    expect(report.issues[1].message).toMatch(/^Duplicate observation/);
+    expect(report.issues[2].message).toBe("Unknown table 999-1");
+  });
+
+  it("should give an empty store for a missing directory", async () => {
+    const { observations, report } = await loadObservations(
+      path.join(dir, "missing"),
+      ITEMS,
+    );
+
+    expect(observations).toEqual([]);
+    expect(report.files).toEqual([]);
+  });
+});
+
+describe("describeObservationTable", () => {
+  it("should list dimension values, years and units", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "observations-"));
+    fs.writeFileSync(
+      path.join(dir, "519-2.csv"),
+      ["Kecamatan,2022,2023", "Medan Johor,99,98", "Kota Medan,100,99"].join(
+        "\n",
+      ),
+    );
+    const { tables } = await loadObservations(dir, ITEMS);
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(describeObservationTable(ITEMS[1], tables.get("519-2"))).toEqual({
+      tableId: "519-2",
+      title: ITEMS[1].title,
+      url: ITEMS[1].url,
+      dimensions: { kecamatan: ["Medan Johor", "Jumlah"] },
+      years: [2022, 2023],
+      units: ["Persen"],
+      count: 4,
+    });
+  });
+});
+
+describe("getObservationSnapshot", () => {
+  const HEADER =
+    "parent_category,parent_subject_id,parent_title,parent_url,row_number,title,last_updated,url,extracted_at";
+  const row = (n: number, title: string) =>
+    `Statistik Demografi dan Sosial,519,Kependudukan dan Migrasi,https://medankota.bps.go.id/id/statistics-table?subject=519,${n},"${title}",7 Juli 2025,https://medankota.bps.go.id/id/statistics-table?subject=519#row-${n},2025-08-26T13:11:56`;
+  const env = { ...process.env };
+  let catalogDir: string;
+  let tablesDir: string;
+
+  beforeEach(() => {
+    catalogDir = fs.mkdtempSync(path.join(os.tmpdir(), "catalog-"));
+    tablesDir = fs.mkdtempSync(path.join(os.tmpdir(), "observations-"));
+    process.env.CATALOG_DIR = catalogDir;
+    process.env.OBSERVATIONS_DIR = tablesDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    fs.rmSync(catalogDir, { recursive: true, force: true });
+    fs.rmSync(tablesDir, { recursive: true, force: true });
+  });
+
+  it("should re-import when the catalogue changes", async () => {
+    const catalogFile = path.join(catalogDir, "a.csv");
+    fs.writeFileSync(
+      catalogFile,
+      [HEADER, row(1, "Rasio Jenis Kelamin (Persen), 2023")].join("\n"),
+    );
+    fs.writeFileSync(path.join(tablesDir, "519-1.csv"), "Kecamatan,2023\nA,98");
+    reloadCatalog();
+    await reloadObservations();
+    expect(getObservationSnapshot().tables.has("519-1")).toBe(true);
+
+    // Row 1 is gone, so its export no longer belongs to any table
+    fs.writeFileSync(
+      catalogFile,
+      [HEADER, row(2, "Jumlah Penduduk (Jiwa), 2023")].join("\n"),
+    );
+    reloadCatalog();
+
+    expect(getObservationSnapshot().observations).toEqual([]);
+    await vi.waitFor(() =>
+      expect(getObservationSnapshot().report.issues).toEqual([
+        { file: "519-1.csv", message: "Unknown table 519-1" },
+      ]),
+    );
+  });
+});
@@ -0,0 +1,256 @@
+import fs from "fs";
+import path from "path";
+import { read as readWorkbook, utils as sheetUtils } from "xlsx";
+import { ObservationReport, ObservationTable } from "@shared/api";
+import { BPSDataItem, getTableId, getTitleInfo } from "../../shared/catalog";
+import { parseCsv } from "../../shared/csv";
+import {
+  dimensionKey,
+  Observation,
+  observationKey,
+  TableCell,
+  tableToObservations,
+  YEAR_KEY,
+} from "../../shared/observations";
+import { getCatalogSnapshot } from "./catalog";
+import { formatZodError, observationFileSchema } from "./schemas";
+
+export interface ObservationSnapshot {
+  observations: Observation[];
+  /** Observations per table id, in file order */
+  tables: Map<string, Observation[]>;
+  loadedAt: Date;
+  report: ObservationReport;
+}
+
+const EXTENSIONS = [".csv", ".json", ".xlsx"];
+
+let snapshot: ObservationSnapshot | null = null;
+/** Catalogue version the active observations were imported against */
+let loadedFor: string | null = null;
+let pending: Promise<ObservationSnapshot> | null = null;
+let reloadError: ObservationReport["reloadError"];
+
+/** Directory of table exports named `<table id>.csv|json|xlsx` */
+export const getObservationsDir = (): string =>
+  path.resolve(process.env.OBSERVATIONS_DIR ?? "data/tables");
+
+/** Cells of the first sheet, numbers as stored rather than as displayed */
+async function readXlsxRows(file: string): Promise<TableCell[][]> {
+  const workbook = readWorkbook(await fs.promises.readFile(file), {
+    type: "buffer",
+  });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = sheetUtils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: "",
+  });
+  return rows.map((row) =>
+    row.map((cell) => (typeof cell === "number" ? cell : String(cell ?? ""))),
+  );
+}
+
+/**
+ * Reads one export as rows with a header row. JSON records become long-format
+ * rows over the union of their keys.
+ */
+async function readRows(
+  file: string,
+): Promise<{ rows: TableCell[][]; unit?: string }> {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === ".xlsx") return { rows: await readXlsxRows(file) };
+
+  const text = await fs.promises.readFile(file, "utf8");
+  if (extension === ".csv") {
+    const { header, records } = parseCsv(text);
+    return { rows: [header, ...records.map((record) => record.fields)] };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+  const parsed = observationFileSchema.safeParse(raw);
+  if (!parsed.success) throw new Error(formatZodError(parsed.error));
+  const { unit, observations: records } = Array.isArray(parsed.data)
+    ? { unit: undefined, observations: parsed.data }
+    : parsed.data;
+  const header = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  return {
+    rows: [
+      header,
+      ...records.map((record) => header.map((key) => record[key] ?? "")),
+    ],
+    unit,
+  };
+}
+
+/**
+ * The title breakdown not already a row label column, used to name the value
+ * columns of a wide export ("Laki-laki", "Perempuan" -> jenis_kelamin)
+ */
+const columnDimension = (
+  item: BPSDataItem,
+  header: TableCell[],
+): string | undefined => {
+  const rowKeys = new Set(header.map((name) => dimensionKey(String(name))));
+  return getTitleInfo(item).dimensions.find(
+    (dimension) => !rowKeys.has(dimensionKey(dimension)),
+  );
+};
+
+/**
+ * Imports every table export in `dir` into observations. The file name is
+ * the catalogue table id (`519-3.csv`); the unit defaults to the one in the
+ * table title. Unknown tables, unreadable files, non-numeric cells and
+ * duplicate observations are reported and skipped. A missing directory
+ * gives an empty store.
+ */
+export async function loadObservations(
+  dir: string,
+  items: BPSDataItem[],
+): Promise<ObservationSnapshot> {
+  const files = fs.existsSync(dir)
+    ? fs
+        .readdirSync(dir)
+        .filter((file) => EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .sort()
+    : [];
+  const byId = new Map(items.map((item) => [getTableId(item), item]));
+
+  const observations: Observation[] = [];
+  const tables = new Map<string, Observation[]>();
+  const seen = new Set<string>();
+  const report: ObservationReport = {
+    loadedAt: "",
+    files: [],
+    issues: [],
+  };
+
+  for (const file of files) {
+    const tableId = path.basename(file, path.extname(file));
+    const item = byId.get(tableId);
+    if (!item) {
+      report.issues.push({ file, message: `Unknown table ${tableId}` });
+      continue;
+    }
+
+    let read: Awaited<ReturnType<typeof readRows>>;
+    try {
+      read = await readRows(path.join(dir, file));
+    } catch (error) {
+      report.issues.push({ file, message: (error as Error).message });
+      continue;
+    }
+
+    const result = tableToObservations(tableId, read.rows, {
+      unit: read.unit ?? getTitleInfo(item).unit,
+      columnDimension: columnDimension(item, read.rows[0] ?? []),
+    });
+    result.issues.forEach((message) => report.issues.push({ file, message }));
+
+    let accepted = 0;
+    for (const observation of result.observations) {
+      const key = observationKey(observation);
+      if (seen.has(key)) {
+        report.issues.push({
+          file,
+          message: `Duplicate observation ${key}`,
+        });
+        continue;
+      }
+      seen.add(key);
+      observations.push(observation);
+      if (!tables.has(tableId)) tables.set(tableId, []);
+      tables.get(tableId).push(observation);
+      accepted++;
+    }
+    report.files.push({ file, tableId, observations: accepted });
+  }
+
+  const loadedAt = new Date();
+  report.loadedAt = loadedAt.toISOString();
+  return { observations, tables, loadedAt, report };
+}
+
+const emptySnapshot = (): ObservationSnapshot => {
+  const loadedAt = new Date();
+  return {
+    observations: [],
+    tables: new Map(),
+    loadedAt,
+    report: { loadedAt: loadedAt.toISOString(), files: [], issues: [] },
+  };
+};
+
+/**
+ * Re-reads OBSERVATIONS_DIR against the active catalogue and swaps the store
+ * in one assignment. On failure the previous observations stay active.
+ */
+export async function reloadObservations(): Promise<ObservationSnapshot> {
+  const catalog = getCatalogSnapshot();
+  try {
+    snapshot = await loadObservations(getObservationsDir(), catalog.items);
+    loadedFor = catalog.version;
+    reloadError = undefined;
+  } catch (error) {
+    reloadError = {
+      message: (error as Error).message,
+      at: new Date().toISOString(),
+    };
+  }
+  return snapshot ?? emptySnapshot();
+}
+
+/**
+ * Returns the observations imported against the active catalogue. Table ids
+ * are catalogue row numbers, so when the catalogue has changed since (or
+ * nothing was imported yet) this starts a re-import and returns an empty
+ * store until it has finished.
+ */
+export function getObservationSnapshot(): ObservationSnapshot {
+  if (snapshot && loadedFor === getCatalogSnapshot().version) return snapshot;
+  pending ??= reloadObservations().finally(() => {
+    pending = null;
+  });
+  return emptySnapshot();
+}
+
+/** Import report of the active observations plus the last reload error */
+export function getObservationReport(): ObservationReport {
+  return { ...getObservationSnapshot().report, reloadError };
+}
+
+/** Summary of one ingested table: dimension values, years and units */
+export const describeObservationTable = (
+  item: BPSDataItem,
+  observations: Observation[],
+): ObservationTable => {
+  const dimensions: Record<string, Set<string>> = {};
+  const years = new Set<number>();
+  const units = new Set<string>();
+  for (const observation of observations) {
+    for (const [key, value] of Object.entries(observation.dimensions)) {
+      (dimensions[key] ??= new Set()).add(value);
+    }
+    if (observation.year !== null) years.add(observation.year);
+    if (observation.unit) units.add(observation.unit);
+  }
+
+  return {
+    tableId: getTableId(item),
+    title: item.title,
+    url: item.url,
+    dimensions: Object.fromEntries(
+      Object.entries(dimensions)
+        .filter(([key]) => key !== YEAR_KEY)
+        .map(([key, values]) => [key, [...values]]),
+    ),
+    years: [...years].sort((a, b) => a - b),
+    units: [...units],
+    count: observations.length,
+  };
+};
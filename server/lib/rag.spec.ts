@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { getCatalog } from "./catalog";
+import { createMockProvider } from "../llm/mock";
+import { answerQuestion } from "./assistant";
+import {
+  buildGroundedPrompt,
+  explainRetrieval,
+  extractCitations,
+  retrieve,
+  TOP_K,
+} from "./rag";
+
+describe("retrieve", () => {
+  it("should return the top-k CSV tables for a question", () => {
+    const { documents, related } = retrieve(
+      getCatalog(),
+      "rasio jenis kelamin kecamatan",
+    );
+
+    expect(documents).toHaveLength(TOP_K);
+    expect(documents[0].title).toContain("Rasio Jenis Kelamin");
+    expect(related.slice(0, TOP_K)).toEqual(documents);
+  });
+
+  it("should only keep tables matching the filters", () => {
+    const catalog = getCatalog();
+    const { related } = retrieve(catalog, "jumlah penduduk", TOP_K, [], {
+      category: "Statistik Ekonomi",
+    });
+
+    expect(related.length).toBeGreaterThan(0);
+    related.forEach((item) => expect(item.category).toBe("Statistik Ekonomi"));
+  });
+
+  it("should list the newest filtered tables when no word matches", () => {
+    const catalog = getCatalog();
+    const subjectId = catalog[0].subject_id;
+    const { documents } = retrieve(catalog, "xyzzy qwerty", TOP_K, [], {
+      subjectId,
+    });
+
+    expect(documents.length).toBeGreaterThan(0);
+    documents.forEach((item) => expect(item.subject_id).toBe(subjectId));
+    expect(retrieve(catalog, "xyzzy qwerty").documents).toEqual([]);
+  });
+});
+
+describe("explainRetrieval", () => {
+  it("should describe the ranking in the order retrieve uses", () => {
+    const question = "rasio jenis kelamin kecamatan 2020";
+    const debug = explainRetrieval(getCatalog(), question, "lexical");
+
+    expect(debug.rule).toBe("constraints");
+    expect(debug.constraints?.startYear).toBe(2020);
+    expect(debug.hits.map((hit) => hit.url)).toEqual(
+      retrieve(getCatalog(), question)
+        .related.slice(0, debug.hits.length)
+        .map((item) => item.url),
+    );
+    expect(debug.hits[0].contiguousRun).toBe(3);
+    expect(debug.hits[0].contiguousBonus).toBeGreaterThan(0);
+  });
+
+  it("should explain a filtered fallback", () => {
+    const catalog = getCatalog();
+    const filters = { subjectId: catalog[0].subject_id };
+    const debug = explainRetrieval(
+      catalog,
+      "xyzzy qwerty",
+      "lexical",
+      [],
+      filters,
+    );
+
+    expect(debug.rule).toBe("filters_recent");
+    expect(debug.filters).toEqual(filters);
+  });
+
+  it("should report typo matches", () => {
+    const debug = explainRetrieval(getCatalog(), "pendudk", "lexical");
+
+    expect(debug.rule).toBe("ranked");
+    expect(debug.hits[0].fuzzyTerms).toEqual(["pendudk"]);
+  });
+});
+
+describe("buildGroundedPrompt", () => {
+  it("should number every source in the system message", () => {
+    const { documents } = retrieve(getCatalog(), "jumlah penduduk", 3);
+    const [system, user] = buildGroundedPrompt(
+      [{ type: "user", content: "jumlah penduduk" }],
+      documents,
+    );
+
+    expect(system.role).toBe("system");
+    documents.forEach((item, index) => {
+      expect(system.content).toContain(`[${index + 1}] ${item.title} |`);
+    });
+    expect(user).toEqual({ role: "user", content: "jumlah penduduk" });
+  });
+
+  it("should include when each source was last updated", () => {
+    const [first] = retrieve(getCatalog(), "rasio jenis kelamin", 1).documents;
+    const [system] = buildGroundedPrompt(
+      [{ type: "user", content: "rasio jenis kelamin" }],
+      [first],
+    );
+
+    expect(first.last_updated).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(system.content).toMatch(/\| Diperbarui: \d{1,2} \w+ \d{4} \|/);
+  });
+});
+
+describe("extractCitations", () => {
+  it("should list distinct citation numbers in order", () => {
+    expect(extractCitations("A [2], B [1][2] dan C [3].")).toEqual([2, 1, 3]);
+  });
+
+  it("should map every citation of a grounded answer to a source", async () => {
+    const { answer, sources } = await answerQuestion(
+      [{ type: "user", content: "jumlah penduduk kecamatan" }],
+      { provider: createMockProvider() },
+    );
+
+    const citations = extractCitations(answer);
+    expect(citations.length).toBeGreaterThan(0);
+    citations.forEach((n) => {
+      expect(answer).toContain(`**${sources![n - 1].title}** [${n}]`);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { ChatSource, ChatTurn, SearchDebug, SearchDebugHit } from "@shared/api";
+import {
+  BPSDataItem,
+  formatIndonesianDate,
+  searchCatalog,
+  searchCatalogDetailed,
+} from "../../shared/catalog";
+import {
+  applyFilters,
+  browseFiltered,
+  CatalogFilters,
+  matchesFilters,
+} from "../../shared/filters";
+import { SearchHit, unscoredHit } from "../../shared/search";
+import { searchSynonymSubjects, SynonymEntry } from "../../shared/synonyms";
+import { LLMMessage } from "../llm";
+import { BlendedHit, hybridSearch, HybridOptions } from "./hybrid";
+
+/** Number of tables given to the LLM as numbered sources */
+export const TOP_K = 5;
+
+/** Number of ranked tables returned to the client as related data */
+export const RELATED_LIMIT = 20;
+
+const SYSTEM_PROMPT = `Anda adalah StatMedan AI, asisten data statistik resmi BPS Kota Medan.
+Jawab dalam Bahasa Indonesia dengan singkat dan hanya berdasarkan sumber bernomor di bawah.
+Setiap klaim harus diikuti nomor sumbernya dalam kurung siku, misalnya [1] atau [2][3].
+Jangan mengarang angka atau sumber. Jika sumber tidak memuat nilai yang ditanyakan,
+katakan demikian dan sebutkan tabel yang paling relevan beserta nomornya.
+Jika sumber mencantumkan tanggal pembaruan, sebutkan seberapa baru tabel tersebut.`;
+
+export interface Retrieval {
+  /** Top-k tables, cited in the prompt as [1]..[k] */
+  documents: BPSDataItem[];
+  /** Wider ranked list for the related data shown under the answer */
+  related: BPSDataItem[];
+  /** Scores behind `related` when the hybrid ranking set its order */
+  blended?: BlendedHit[];
+}
+
+/**
+ * Ranks the catalogue for a question with its synonyms expanded, falling back
+ * to the subjects of matching synonym entries when the full-text search finds
+ * nothing. With `filters`, only matching tables are kept, and when no words
+ * match the newest tables passing the filters are returned instead.
+ */
+export function retrieve(
+  catalog: BPSDataItem[],
+  question: string,
+  k = TOP_K,
+  synonyms: SynonymEntry[] = [],
+  filters?: CatalogFilters,
+): Retrieval {
+  let ranked = applyFilters(
+    searchCatalog(catalog, question, synonyms),
+    filters,
+  );
+  if (ranked.length === 0) {
+    ranked = applyFilters(
+      searchSynonymSubjects(catalog, question, synonyms),
+      filters,
+    );
+  }
+  if (ranked.length === 0) ranked = browseFiltered(catalog, filters);
+  return toRetrieval(ranked, k);
+}
+
+/**
+ * Like {@link retrieve} but ranks with the hybrid lexical + embedding scorer.
+ * Falls back to {@link retrieve} when the question cannot be embedded.
+ */
+export async function retrieveHybrid(
+  catalog: BPSDataItem[],
+  question: string,
+  options: HybridOptions,
+  k = TOP_K,
+): Promise<Retrieval> {
+  try {
+    const hits = await hybridSearch(catalog, question, options);
+    const kept = new Set(
+      applyFilters(
+        hits.map((hit) => hit.item),
+        options.filters,
+      ),
+    );
+    const blended = hits.filter((hit) => kept.has(hit.item));
+    if (blended.length > 0) {
+      const retrieval = toRetrieval(
+        blended.map((hit) => hit.item),
+        k,
+      );
+      return {
+        ...retrieval,
+        blended: blended.slice(0, retrieval.related.length),
+      };
+    }
+  } catch (error) {
+    console.warn(`Semantic search failed: ${(error as Error).message}`);
+  }
+  return retrieve(catalog, question, k, options.synonyms, options.filters);
+}
+
+/**
+ * Explains the lexical ranking behind {@link retrieve}: per-field scores,
+ * matched terms, the contiguous-run bonus and the rule that set the order.
+ * With the `blended` hits of {@link retrieveHybrid} the tables follow the
+ * hybrid order instead and carry their similarity and blended score.
+ */
+export function explainRetrieval(
+  catalog: BPSDataItem[],
+  question: string,
+  mode: SearchDebug["mode"],
+  synonyms: SynonymEntry[] = [],
+  filters?: CatalogFilters,
+  blended?: BlendedHit[],
+): SearchDebug {
+  const details = searchCatalogDetailed(catalog, question, synonyms);
+  const accept = (hit: SearchHit) =>
+    !filters || matchesFilters(hit.item, filters);
+  let hits: (SearchHit & Partial<SearchDebugHit>)[] =
+    details.hits.filter(accept);
+  let rule: SearchDebug["rule"] = details.rule;
+  if (blended?.length) {
+    const lexical = new Map(details.hits.map((hit) => [hit.item, hit]));
+    hits = blended.map(({ item, similarity, score }) => ({
+      ...(lexical.get(item) ?? unscoredHit(item)),
+      similarity,
+      blendedScore: score,
+    }));
+  }
+  if (hits.length === 0) {
+    hits = searchSynonymSubjects(catalog, question, synonyms)
+      .map(unscoredHit)
+      .filter(accept);
+    if (hits.length > 0) rule = "synonym_subjects";
+  }
+  if (hits.length === 0) {
+    hits = browseFiltered(catalog, filters).map(unscoredHit);
+    if (hits.length > 0) rule = "filters_recent";
+  }
+
+  return {
+    question,
+    mode,
+    rule,
+    expansions: details.expansions,
+    constraints: details.constraints,
+    filters,
+    hits: hits.slice(0, RELATED_LIMIT).map(({ item, ...hit }) => ({
+      title: item.title,
+      url: item.url,
+      ...hit,
+    })),
+  };
+}
+
+const toRetrieval = (ranked: BPSDataItem[], k: number): Retrieval => ({
+  documents: ranked.slice(0, k),
+  related: ranked.slice(0, Math.max(k, RELATED_LIMIT)),
+});
+
+/**
+ * Formats a table as a numbered source line. Fields are separated by " | "
+ * because BPS titles themselves contain commas and parentheses.
+ */
+export const formatSource = (item: BPSDataItem, index: number): string =>
+  [
+    `[${index + 1}] ${item.title}`,
+    `Subjek: ${item.description}`,
+    `Kategori: ${item.category}`,
+    item.last_updated &&
+      `Diperbarui: ${formatIndonesianDate(item.last_updated)}`,
+    `URL: ${item.url}`,
+  ]
+    .filter(Boolean)
+    .join(" | ");
+
+/**
+ * Builds the grounded prompt: the instructions and numbered sources as the
+ * system message followed by the conversation so far.
+ */
+export function buildGroundedPrompt(
+  messages: ChatTurn[],
+  documents: BPSDataItem[],
+): LLMMessage[] {
+  const sources = documents.map(formatSource).join("\n");
+
+  return [
+    { role: "system", content: `${SYSTEM_PROMPT}\n\nSumber:\n${sources}` },
+    ...messages.map(
+      (msg): LLMMessage => ({ role: msg.type, content: msg.content }),
+    ),
+  ];
+}
+
+/**
+ * Sources in citation order, so `[n]` in the answer is `sources[n - 1]`.
+ */
+export const toSources = (documents: BPSDataItem[]): ChatSource[] =>
+  documents.map((item) => ({ title: item.title, url: item.url }));
+
+/**
+ * Returns the distinct citation numbers used in an answer, in order of first
+ * appearance.
+ */
+export function extractCitations(answer: string): number[] {
+  const numbers = Array.from(answer.matchAll(/\[(\d+)\]/g), (match) =>
+    Number(match[1]),
+  );
+  return Array.from(new Set(numbers));
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { chatRequestSchema, conversationSchema } from "./schemas";
+
+describe("chatRequestSchema", () => {
+  it("should require a conversation ending with a user question", () => {
+    expect(chatRequestSchema.safeParse({ messages: [] }).success).toBe(false);
+    expect(
+      chatRequestSchema.safeParse({
+        messages: [{ type: "assistant", content: "halo" }],
+      }).success,
+    ).toBe(false);
+    expect(
+      chatRequestSchema.safeParse({
+        messages: [{ type: "user", content: "jumlah penduduk" }],
+      }).success,
+    ).toBe(true);
+  });
+
+  it("should validate catalogue filters", () => {
+    const request = (filters: object) =>
+      chatRequestSchema.safeParse({
+        messages: [{ type: "user", content: "jumlah penduduk" }],
+        filters,
+      }).success;
+
+    expect(
+      request({
+        category: "Statistik Ekonomi",
+        yearFrom: 2015,
+        yearTo: 2020,
+        updatedFrom: "2025-01-01",
+      }),
+    ).toBe(true);
+    expect(request({ yearFrom: 2020, yearTo: 2015 })).toBe(false);
+    expect(request({ updatedFrom: "1 Januari 2025" })).toBe(false);
+  });
+});
+
+describe("conversationSchema", () => {
+  it("should revive ISO date strings", () => {
+    const parsed = conversationSchema.parse({
+      id: "a",
+      title: "Tes",
+      createdAt: "2025-07-07T10:00:00.000Z",
+      updatedAt: "2025-07-07T10:00:00.000Z",
+      messages: [
+        {
+          id: "1",
+          type: "user",
+          content: "halo",
+          timestamp: "2025-07-07T10:00:00.000Z",
+        },
+      ],
+    });
+
+    expect(parsed.updatedAt).toBeInstanceOf(Date);
+    expect(parsed.messages[0].timestamp).toBeInstanceOf(Date);
+  });
+});
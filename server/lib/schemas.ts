@@ -0,0 +1,188 @@
+import { z } from "zod";
+import {
+  ChatRequest,
+  Conversation,
+  ConversationInput,
+  FeedbackRequest,
+  Message,
+} from "@shared/api";
+import type { CatalogFilters } from "@shared/filters";
+import type { SynonymEntry } from "@shared/synonyms";
+
+// The tsconfig runs without strictNullChecks, under which zod infers every
+// property as optional, so schemas are typed against the shared interfaces.
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export const chatSourceSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+});
+
+export const bpsDataItemSchema = z.object({
+  category: z.string(),
+  subject_id: z.number(),
+  url: z.string(),
+  title: z.string(),
+  description: z.string(),
+  scraped_at: z.string(),
+  table_count: z.number(),
+  row_number: z.number().optional(),
+  last_updated: z.string().nullable().optional(),
+  parent_title: z.string().optional(),
+  parent_url: z.string().optional(),
+  extracted_at: z.string().optional(),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected YYYY-MM-DD");
+const year = z.number().int().min(1900).max(2100);
+
+export const catalogFiltersSchema = z
+  .object({
+    category: z.string().min(1).optional(),
+    subjectId: z.number().int().optional(),
+    yearFrom: year.optional(),
+    yearTo: year.optional(),
+    updatedFrom: isoDate.optional(),
+    updatedTo: isoDate.optional(),
+  })
+  .refine(
+    (filters) =>
+      filters.yearFrom === undefined ||
+      filters.yearTo === undefined ||
+      filters.yearFrom <= filters.yearTo,
+    { message: "yearFrom must not be after yearTo", path: ["yearFrom"] },
+  )
+  .refine(
+    (filters) =>
+      !filters.updatedFrom ||
+      !filters.updatedTo ||
+      filters.updatedFrom <= filters.updatedTo,
+    {
+      message: "updatedFrom must not be after updatedTo",
+      path: ["updatedFrom"],
+    },
+  ) as Schema<CatalogFilters>;
+
+const feedbackObject = z.object({
+  rating: z.enum(["up", "down"]),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const messageSchema = z.object({
+  id: z.string().min(1),
+  parentId: z.string().nullable().optional(),
+  content: z.string(),
+  type: z.enum(["user", "assistant"]),
+  timestamp: z.coerce.date(),
+  sources: z.array(chatSourceSchema).optional(),
+  relatedData: z.array(bpsDataItemSchema).optional(),
+  feedback: feedbackObject.optional(),
+  filters: catalogFiltersSchema.optional(),
+}) as Schema<Message>;
+
+export const conversationSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().trim().min(1).max(200),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  messages: z.array(messageSchema),
+  currentLeafId: z.string().nullable().optional(),
+}) as Schema<Conversation>;
+
+const conversationInputObject = z.object({
+  title: z.string().trim().min(1).max(200),
+  messages: z.array(messageSchema).optional(),
+});
+
+export const conversationInputSchema =
+  conversationInputObject as Schema<ConversationInput>;
+
+export const conversationPatchSchema =
+  conversationInputObject.partial() as Schema<Partial<ConversationInput>>;
+
+export const chatRequestSchema = z.object({
+  messages: z
+    .array(
+      z.object({
+        type: z.enum(["user", "assistant"]),
+        content: z.string(),
+      }),
+    )
+    .min(1)
+    .refine(
+      (messages) => {
+        const last = messages[messages.length - 1];
+        return last?.type === "user" && last.content.trim().length > 0;
+      },
+      { message: "the last message must be a non-empty user question" },
+    ),
+  debug: z.boolean().optional(),
+  filters: catalogFiltersSchema.optional(),
+}) as Schema<ChatRequest>;
+
+export const feedbackRequestSchema = feedbackObject.extend({
+  conversationId: z.string().optional(),
+  messageId: z.string().min(1),
+  question: z.string(),
+  answer: z.string(),
+  subjectIds: z.array(z.number()),
+  ranking: z.array(
+    z.object({
+      rank: z.number().int().positive(),
+      subject_id: z.number(),
+      title: z.string(),
+      url: z.string(),
+    }),
+  ),
+}) as Schema<FeedbackRequest>;
+
+export const synonymEntrySchema = z.object({
+  canonical: z.string().trim().min(1),
+  aliases: z.array(z.string()).min(1),
+  subjects: z.array(z.number().int()).optional(),
+}) as Schema<SynonymEntry>;
+
+/** Shape of data/catalog/synonyms.json; entries are validated one by one */
+export const synonymFileSchema = z.object({
+  entries: z.array(z.unknown()),
+});
+
+const observationRecord = z.record(z.union([z.string(), z.number(), z.null()]));
+
+/**
+ * Shape of a JSON table export under OBSERVATIONS_DIR: records in long
+ * format, either bare or with a default unit
+ */
+export const observationFileSchema = z.union([
+  z.array(observationRecord),
+  z.object({
+    unit: z.string().optional(),
+    observations: z.array(observationRecord),
+  }),
+]);
+
+const optionalInt = z.coerce.number().int().optional();
+
+/** Query string of GET /api/observations; other keys filter dimensions */
+export const observationQuerySchema = z
+  .object({
+    table: z.string().min(1).optional(),
+    unit: z.string().min(1).optional(),
+    year: optionalInt,
+    yearFrom: optionalInt,
+    yearTo: optionalInt,
+    limit: z.coerce.number().int().min(1).max(5000).default(1000),
+  })
+  .passthrough();
+
+/**
+ * Flattens zod issues into a single message for an ErrorResponse.
+ */
+export const formatZodError = (error: z.ZodError): string =>
+  error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join("; ");
@@ -0,0 +1,111 @@
+import fs from "fs";
+import path from "path";
+import { BPSDataItem } from "../../shared/catalog";
+import { Embedder } from "../embeddings";
+import { CatalogSnapshot } from "./catalog";
+
+/** Embeddings of every catalogue item, aligned with `CatalogSnapshot.items` */
+export interface VectorIndex {
+  /** Catalogue version the vectors were computed for */
+  version: string;
+  model: string;
+  vectors: number[][];
+}
+
+const BATCH_SIZE = 32;
+
+/** The text embedded for a table: its title followed by its subject */
+export const embeddingText = (item: BPSDataItem): string =>
+  [item.title, item.description].filter(Boolean).join(". ");
+
+/** Dot product; equal to the cosine similarity for normalised vectors */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+/**
+ * Embeds every catalogue item in batches, so a large catalogue never sits in
+ * a single model call.
+ */
+export async function buildVectorIndex(
+  items: BPSDataItem[],
+  embedder: Embedder,
+  version: string,
+): Promise<VectorIndex> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const batch = items.slice(i, i + BATCH_SIZE).map(embeddingText);
+    vectors.push(...(await embedder.embed(batch)));
+  }
+  return { version, model: embedder.model, vectors };
+}
+
+const cacheFile = (cacheDir: string, model: string, version: string) =>
+  path.join(cacheDir, `${model.replace(/[^\w.-]+/g, "_")}-${version}.json`);
+
+/**
+ * Returns the vectors for a catalogue snapshot from `cacheDir` when they were
+ * computed before with the same model, or computes and caches them.
+ */
+export async function loadVectorIndex(
+  snapshot: CatalogSnapshot,
+  embedder: Embedder,
+  cacheDir: string,
+): Promise<VectorIndex> {
+  const file = cacheFile(cacheDir, embedder.model, snapshot.version);
+  try {
+    const cached = JSON.parse(
+      await fs.promises.readFile(file, "utf8"),
+    ) as VectorIndex;
+    if (cached.vectors.length === snapshot.items.length) return cached;
+  } catch {
+    // Not cached yet
+  }
+
+  const index = await buildVectorIndex(
+    snapshot.items,
+    embedder,
+    snapshot.version,
+  );
+  try {
+    await fs.promises.mkdir(cacheDir, { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(index));
+  } catch (error) {
+    // Read-only deployments (serverless functions) still use the vectors
+    console.warn(`Vector cache not written: ${(error as Error).message}`);
+  }
+  return index;
+}
+
+let current: {
+  version: string;
+  index: VectorIndex | null;
+} | null = null;
+
+/**
+ * Returns the vectors of `snapshot` once they are ready. The first call for a
+ * catalogue version starts computing them in the background and returns
+ * `null`, so retrieval stays lexical until the vectors exist (and for good if
+ * the model cannot be loaded).
+ */
+export function getVectorIndex(
+  snapshot: CatalogSnapshot,
+  embedder: Embedder,
+  cacheDir: string,
+): VectorIndex | null {
+  if (current?.version === snapshot.version) return current.index;
+
+  const pending = { version: snapshot.version, index: null };
+  current = pending;
+  loadVectorIndex(snapshot, embedder, cacheDir).then(
+    (index) => {
+      pending.index = index;
+    },
+    (error) => {
+      console.warn(`Semantic search disabled: ${(error as Error).message}`);
+    },
+  );
+  return null;
+}
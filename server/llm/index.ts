@@ -0,0 +1,26 @@
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import { LLMConfig, LLMProvider, loadLLMConfig } from "./provider";
+
+export type { LLMMessage, LLMProvider, LLMRequest } from "./provider";
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider(config);
+    default:
+      return createMockProvider({ model: config.model });
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Returns the provider selected by the LLM_* environment variables.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createLLMProvider(loadLLMConfig());
+  }
+  return provider;
+}
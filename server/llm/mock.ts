@@ -0,0 +1,76 @@
+import { LLMProvider, LLMRequest } from "./provider";
+
+export interface MockProviderOptions {
+  model?: string;
+  /** Builds the reply for a request; defaults to a summary of the prompt context */
+  reply?: (request: LLMRequest) => string;
+}
+
+/**
+ * Deterministic answer built only from the prompt: it names the numbered
+ * `[n] title | ...` sources of the system message and cites them, so answers
+ * stay grounded without a model.
+ */
+export const mockReply = (request: LLMRequest): string => {
+  const question = [...request.messages]
+    .reverse()
+    .find((msg) => msg.role === "user")?.content;
+  const sources = request.messages
+    .filter((msg) => msg.role === "system")
+    .flatMap((msg) => msg.content.split("\n"))
+    .map((line) =>
+      line.match(/^\[(\d+)\] ([^|]+)(?:.*\| Diperbarui: ([^|]+))?/),
+    )
+    .filter(Boolean)
+    .map(
+      ([, n, title, updated]) =>
+        `**${title.trim()}** [${n}]` +
+        (updated ? ` (diperbarui ${updated.trim()})` : ""),
+    );
+
+  if (sources.length === 0) {
+    return `Maaf, saya tidak menemukan data yang relevan dengan pertanyaan Anda. 🙏`;
+  }
+
+  const [primary, ...others] = sources;
+  return [
+    `Berdasarkan pertanyaan Anda tentang "${question}", tabel BPS Kota Medan yang paling relevan adalah ${primary}.`,
+    ...(others.length > 0
+      ? ["", "Tabel terkait lainnya:", ...others.map((src) => `- ${src}`)]
+      : []),
+    "",
+    "Klik link sumber di bawah untuk melihat data lengkap dari portal resmi BPS. 🔗",
+  ].join("\n");
+};
+
+const splitWords = (text: string) => text.split(/(?<=\s)(?=\S)/);
+
+/**
+ * Local provider for development and tests. It never touches the network and
+ * always returns the same output for the same request, truncated to
+ * `maxTokens` words.
+ */
+export function createMockProvider(
+  options: MockProviderOptions = {},
+): LLMProvider {
+  const reply = options.reply ?? mockReply;
+
+  const complete = (request: LLMRequest) => {
+    const words = splitWords(reply(request));
+    return request.maxTokens ? words.slice(0, request.maxTokens) : words;
+  };
+
+  return {
+    name: "mock",
+    model: options.model ?? "mock-1",
+    async generate(request) {
+      return complete(request).join("");
+    },
+    async *stream(request) {
+      for (const word of complete(request)) {
+        if (request.signal?.aborted) return;
+        yield word;
+      }
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { LLMProvider, LLMRequest } from "./provider";
+
+export interface OpenAIProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+interface ChatCompletion {
+  choices: Array<{ message?: { content?: string } }>;
+}
+
+interface ChatCompletionChunk {
+  choices: Array<{ delta?: { content?: string } }>;
+}
+
+/**
+ * Text of one server-sent event line. Comments, keep-alives, `[DONE]` and
+ * chunks that are not valid JSON give nothing, so one bad line does not end
+ * the answer.
+ */
+const parseStreamLine = (line: string): string | null => {
+  if (!line.startsWith("data:")) return null;
+  const data = line.slice(5).trim();
+  if (!data || data === "[DONE]") return null;
+
+  try {
+    const chunk = JSON.parse(data) as ChatCompletionChunk;
+    return chunk.choices?.[0]?.delta?.content ?? null;
+  } catch {
+    console.warn(`Skipping malformed LLM stream chunk: ${data.slice(0, 200)}`);
+    return null;
+  }
+};
+
+/**
+ * Adapter for any server implementing the OpenAI `/chat/completions` API
+ * (OpenAI itself, Azure-style gateways, vLLM, Ollama, LM Studio, ...).
+ */
+export function createOpenAIProvider(
+  options: OpenAIProviderOptions,
+): LLMProvider {
+  const request = async (body: LLMRequest, stream: boolean) => {
+    const res = await fetch(
+      `${options.baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey
+            ? { Authorization: `Bearer ${options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages: body.messages,
+          temperature: body.temperature ?? options.temperature,
+          max_tokens: body.maxTokens ?? options.maxTokens,
+          stream,
+        }),
+        signal: body.signal,
+      },
+    );
+    if (!res.ok) {
+      throw new Error(
+        `LLM request failed with status ${res.status}: ${await res.text()}`,
+      );
+    }
+    return res;
+  };
+
+  return {
+    name: "openai",
+    model: options.model,
+    async generate(body) {
+      const res = await request(body, false);
+      const data = (await res.json()) as ChatCompletion;
+      return data.choices[0]?.message?.content ?? "";
+    },
+    async *stream(body) {
+      const res = await request(body, true);
+      if (!res.body) throw new Error("LLM response has no body to stream");
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        buffer += done
+          ? decoder.decode()
+          : decoder.decode(value, { stream: true });
+        // The last line may still be incomplete until the stream ends
+        const lines = buffer.split("\n");
+        buffer = done ? "" : (lines.pop() ?? "");
+
+        for (const line of lines) {
+          const text = parseStreamLine(line);
+          if (text) yield text;
+        }
+        if (done) break;
+      }
+    },
+  };
+}
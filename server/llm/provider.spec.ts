@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { createLLMProvider } from ".";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import { loadLLMConfig } from "./provider";
+
+describe("loadLLMConfig", () => {
+  it("should default to the mock provider", () => {
+    const config = loadLLMConfig({});
+    expect(config.provider).toBe("mock");
+    expect(createLLMProvider(config).name).toBe("mock");
+  });
+
+  it("should read the OpenAI-compatible settings", () => {
+    const config = loadLLMConfig({
+      LLM_PROVIDER: "openai",
+      LLM_MODEL: "llama3",
+      LLM_BASE_URL: "http://localhost:11434/v1",
+      LLM_TEMPERATURE: "0.7",
+      LLM_MAX_TOKENS: "abc",
+    });
+
+    expect(config).toMatchObject({
+      provider: "openai",
+      model: "llama3",
+      baseUrl: "http://localhost:11434/v1",
+      temperature: 0.7,
+      maxTokens: 800,
+    });
+    expect(createLLMProvider(config).model).toBe("llama3");
+  });
+});
+
+describe("createMockProvider", () => {
+  it("should be deterministic and stream the generated text", async () => {
+    const provider = createMockProvider();
+    const request = {
+      messages: [
+        {
+          role: "system" as const,
+          content: "Sumber:\n[1] Tabel A | Subjek: X\n[2] Tabel B | Subjek: Y",
+        },
+        { role: "user" as const, content: "tabel a" },
+      ],
+    };
+
+    const answer = await provider.generate(request);
+    let streamed = "";
+    for await (const chunk of provider.stream(request)) {
+      streamed += chunk;
+    }
+
+    expect(answer).toContain("**Tabel A** [1]");
+    expect(answer).toContain("- **Tabel B** [2]");
+    expect(streamed).toBe(answer);
+    expect(await provider.generate(request)).toBe(answer);
+  });
+
+  it("should honour maxTokens", async () => {
+    const provider = createMockProvider({ reply: () => "satu dua tiga" });
+    expect(await provider.generate({ messages: [], maxTokens: 2 })).toBe(
+      "satu dua ",
+    );
+  });
+});
+
+describe("createOpenAIProvider", () => {
+  const provider = createOpenAIProvider({
+    baseUrl: "http://llm.test/v1/",
+    model: "test",
+    temperature: 0,
+    maxTokens: 10,
+  });
+
+  const respond = (body: BodyInit | null) =>
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(body, { status: 200 })),
+    );
+
+  const collect = async () => {
+    const texts: string[] = [];
+    for await (const text of provider.stream({
+      messages: [{ role: "user", content: "halo" }],
+    })) {
+      texts.push(text);
+    }
+    return texts;
+  };
+
+  const event = (content: string) =>
+    `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should skip keep-alives and malformed chunks", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    respond(
+      [
+        event("Halo"),
+        ": keep-alive",
+        "data: {oops",
+        event(" dunia"),
+        "data: [DONE]",
+        "",
+      ].join("\n"),
+    );
+
+    expect(await collect()).toEqual(["Halo", " dunia"]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("should read a last event without a trailing newline", async () => {
+    respond([event("Halo"), event("!")].join("\n"));
+
+    expect(await collect()).toEqual(["Halo", "!"]);
+  });
+
+  it("should fail clearly on a response without a body", async () => {
+    respond(null);
+
+    await expect(collect()).rejects.toThrow("no body");
+  });
+});
@@ -0,0 +1,53 @@
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat completion backend. `generate` resolves with the full answer while
+ * `stream` yields it in text chunks as they are produced.
+ */
+export interface LLMProvider {
+  name: string;
+  model: string;
+  generate(request: LLMRequest): Promise<string>;
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+export interface LLMConfig {
+  provider: "mock" | "openai";
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+const parseNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Reads the LLM settings from the environment (populated from `.env` by the
+ * `dotenv/config` import in server/index.ts).
+ */
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = env.LLM_PROVIDER === "openai" ? "openai" : "mock";
+
+  return {
+    provider,
+    model: env.LLM_MODEL ?? (provider === "openai" ? "gpt-4o-mini" : "mock-1"),
+    baseUrl: env.LLM_BASE_URL ?? "https://api.openai.com/v1",
+    apiKey: env.LLM_API_KEY,
+    temperature: parseNumber(env.LLM_TEMPERATURE, 0.2),
+    maxTokens: parseNumber(env.LLM_MAX_TOKENS, 800),
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type { Request, Response } from "express";
+import { requireAdmin } from "./admin";
+
+const request = (authorization?: string) =>
+  ({ get: () => authorization }) as unknown as Request;
+
+const response = () => {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+describe("requireAdmin", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should deny every request when ADMIN_TOKEN is not set", () => {
+    vi.stubEnv("ADMIN_TOKEN", "");
+    vi.stubEnv("NODE_ENV", "production");
+    const res = response();
+    const next = vi.fn();
+
+    requireAdmin(request(), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("should stay open in development without ADMIN_TOKEN", () => {
+    vi.stubEnv("ADMIN_TOKEN", "");
+    vi.stubEnv("NODE_ENV", "development");
+    const next = vi.fn();
+
+    requireAdmin(request(), response() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should require the bearer token when ADMIN_TOKEN is set", () => {
+    vi.stubEnv("ADMIN_TOKEN", "secret");
+    const res = response();
+    const next = vi.fn();
+
+    requireAdmin(request("Bearer wrong"), res as unknown as Response, next);
+    requireAdmin(request("Bearer secret"), res as unknown as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
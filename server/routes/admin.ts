@@ -0,0 +1,44 @@
+import { RequestHandler } from "express";
+import { ErrorResponse } from "@shared/api";
+import { getCatalogReport, reloadCatalog } from "../lib/catalog";
+import { getObservationReport, reloadObservations } from "../lib/observations";
+
+/**
+ * Guards the admin routes with `Authorization: Bearer <ADMIN_TOKEN>`. Without
+ * ADMIN_TOKEN the routes are open only to the Vite dev server
+ * (NODE_ENV=development) and closed everywhere else.
+ */
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token && process.env.NODE_ENV !== "development") {
+    const error: ErrorResponse = { error: "ADMIN_TOKEN is not configured" };
+    res.status(403).json(error);
+    return;
+  }
+  if (token && req.get("authorization") !== `Bearer ${token}`) {
+    const error: ErrorResponse = { error: "Unauthorized" };
+    res.status(401).json(error);
+    return;
+  }
+  next();
+};
+
+export const handleCatalogReport: RequestHandler = (_req, res) => {
+  res.status(200).json(getCatalogReport());
+};
+
+/** Re-reads the catalogue now, for deployments where watching is off */
+export const handleCatalogReload: RequestHandler = (_req, res) => {
+  reloadCatalog();
+  res.status(200).json(getCatalogReport());
+};
+
+export const handleObservationReport: RequestHandler = (_req, res) => {
+  res.status(200).json(getObservationReport());
+};
+
+/** Re-imports the table exports in OBSERVATIONS_DIR */
+export const handleObservationReload: RequestHandler = async (_req, res) => {
+  await reloadObservations();
+  res.status(200).json(getObservationReport());
+};
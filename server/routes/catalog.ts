@@ -0,0 +1,76 @@
+import { Request, RequestHandler, Response } from "express";
+import {
+  CatalogResponse,
+  CatalogSubjectResponse,
+  CatalogTableResponse,
+  ErrorResponse,
+} from "@shared/api";
+import {
+  getCatalogCategories,
+  getCatalogSubjects,
+  getTableId,
+  getTitleInfo,
+} from "../../shared/catalog";
+import { getCatalogSnapshot } from "../lib/catalog";
+
+/**
+ * Sends `body` with a strong ETag derived from the catalogue version, or an
+ * empty 304 when the client already holds that version.
+ */
+function sendCached(req: Request, res: Response, etag: string, body: unknown) {
+  res.setHeader("ETag", `"${etag}"`);
+  res.setHeader("Cache-Control", "no-cache");
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.status(200).json(body);
+}
+
+export const handleGetCatalog: RequestHandler = (req, res) => {
+  const { items, synonyms, version, loadedAt } = getCatalogSnapshot();
+  const response: CatalogResponse = {
+    version,
+    loadedAt: loadedAt.toISOString(),
+    categories: getCatalogCategories(items),
+    subjects: getCatalogSubjects(items),
+    items,
+    synonyms,
+  };
+  sendCached(req, res, version, response);
+};
+
+export const handleGetCatalogSubject: RequestHandler = (req, res) => {
+  const { items, version } = getCatalogSnapshot();
+  const id = Number(req.params.id);
+  const subject = getCatalogSubjects(items).find((s) => s.id === id);
+  if (!subject) {
+    const error: ErrorResponse = { error: "Subject not found" };
+    res.status(404).json(error);
+    return;
+  }
+
+  const response: CatalogSubjectResponse = {
+    subject,
+    items: items.filter((item) => item.subject_id === id),
+  };
+  sendCached(req, res, `${version}-s${id}`, response);
+};
+
+export const handleGetCatalogTable: RequestHandler = (req, res) => {
+  const { items, version } = getCatalogSnapshot();
+  const id = req.params.id as string;
+  const item = items.find((it) => getTableId(it) === id);
+  if (!item) {
+    const error: ErrorResponse = { error: "Table not found" };
+    res.status(404).json(error);
+    return;
+  }
+
+  const response: CatalogTableResponse = {
+    id,
+    item,
+    title: getTitleInfo(item),
+  };
+  sendCached(req, res, `${version}-t${id}`, response);
+};
@@ -0,0 +1,68 @@
+import { RequestHandler } from "express";
+import { ChatResponse, ChatStreamEvent, ErrorResponse } from "@shared/api";
+import { answerQuestion, streamAnswer } from "../lib/assistant";
+import { chatRequestSchema, formatZodError } from "../lib/schemas";
+
+export const handleChat: RequestHandler = async (req, res) => {
+  const parsed = chatRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const error: ErrorResponse = { error: formatZodError(parsed.error) };
+    res.status(400).json(error);
+    return;
+  }
+
+  try {
+    const response: ChatResponse = await answerQuestion(parsed.data.messages, {
+      debug: parsed.data.debug,
+      filters: parsed.data.filters,
+    });
+    res.status(200).json(response);
+  } catch (err) {
+    const error: ErrorResponse = {
+      error: err instanceof Error ? err.message : String(err),
+    };
+    res.status(502).json(error);
+  }
+};
+
+export const handleChatStream: RequestHandler = async (req, res) => {
+  const parsed = chatRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const error: ErrorResponse = { error: formatZodError(parsed.error) };
+    res.status(400).json(error);
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  // Stop generating as soon as the client aborts the request
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  const send = (event: ChatStreamEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  try {
+    for await (const event of streamAnswer(parsed.data.messages, {
+      debug: parsed.data.debug,
+      filters: parsed.data.filters,
+      signal: controller.signal,
+    })) {
+      if (controller.signal.aborted) break;
+      send(event);
+    }
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      send({
+        type: "error",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  res.end();
+};
@@ -0,0 +1,97 @@
+import { randomUUID } from "crypto";
+import { RequestHandler } from "express";
+import {
+  Conversation,
+  ConversationListResponse,
+  ErrorResponse,
+} from "@shared/api";
+import {
+  conversationInputSchema,
+  conversationPatchSchema,
+  conversationSchema,
+  formatZodError,
+} from "../lib/schemas";
+import { getConversationStore } from "../storage";
+
+const NOT_FOUND: ErrorResponse = { error: "Conversation not found" };
+
+export const handleListConversations: RequestHandler = async (_req, res) => {
+  const response: ConversationListResponse = {
+    conversations: await getConversationStore().list(),
+  };
+  res.status(200).json(response);
+};
+
+export const handleGetConversation: RequestHandler = async (req, res) => {
+  const conversation = await getConversationStore().get(req.params.id);
+  if (!conversation) {
+    res.status(404).json(NOT_FOUND);
+    return;
+  }
+  res.status(200).json(conversation);
+};
+
+export const handleCreateConversation: RequestHandler = async (req, res) => {
+  const parsed = conversationInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const error: ErrorResponse = { error: formatZodError(parsed.error) };
+    res.status(400).json(error);
+    return;
+  }
+
+  const now = new Date();
+  const conversation: Conversation = {
+    id: randomUUID(),
+    title: parsed.data.title,
+    createdAt: now,
+    updatedAt: now,
+    messages: parsed.data.messages ?? [],
+  };
+  res.status(201).json(await getConversationStore().save(conversation));
+};
+
+/**
+ * Creates or replaces a conversation under a client-chosen id, which is how
+ * the browser mirrors its locally stored conversations.
+ */
+export const handleSaveConversation: RequestHandler = async (req, res) => {
+  const parsed = conversationSchema.safeParse({
+    ...req.body,
+    id: req.params.id,
+  });
+  if (!parsed.success) {
+    const error: ErrorResponse = { error: formatZodError(parsed.error) };
+    res.status(400).json(error);
+    return;
+  }
+
+  res.status(200).json(await getConversationStore().save(parsed.data));
+};
+
+export const handleUpdateConversation: RequestHandler = async (req, res) => {
+  const parsed = conversationPatchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const error: ErrorResponse = { error: formatZodError(parsed.error) };
+    res.status(400).json(error);
+    return;
+  }
+
+  const conversation = await getConversationStore().update(
+    req.params.id,
+    parsed.data,
+  );
+  if (!conversation) {
+    res.status(404).json(NOT_FOUND);
+    return;
+  }
+  res.status(200).json(conversation);
+};
+
+export const handleDeleteConversation: RequestHandler = async (req, res) => {
+  const deleted = await getConversationStore().delete(req.params.id);
+  if (!deleted) {
+    res.status(404).json(NOT_FOUND);
+    return;
+  }
+  res.status(204).end();
+};
@@ -0,0 +1,21 @@
+import { randomUUID } from "crypto";
+import { RequestHandler } from "express";
+import { ErrorResponse, FeedbackRecord } from "@shared/api";
+import { feedbackRequestSchema, formatZodError } from "../lib/schemas";
+import { getFeedbackStore } from "../storage";
+
+export const handleFeedback: RequestHandler = async (req, res) => {
+  const parsed = feedbackRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const error: ErrorResponse = { error: formatZodError(parsed.error) };
+    res.status(400).json(error);
+    return;
+  }
+
+  const record: FeedbackRecord = {
+    id: randomUUID(),
+    createdAt: new Date(),
+    ...parsed.data,
+  };
+  res.status(201).json(await getFeedbackStore().add(record));
+};
@@ -0,0 +1,71 @@
+import { RequestHandler } from "express";
+import {
+  ErrorResponse,
+  ObservationsResponse,
+  ObservationTablesResponse,
+} from "@shared/api";
+import { getTableId } from "../../shared/catalog";
+import { queryObservations } from "../../shared/observations";
+import { getCatalog } from "../lib/catalog";
+import {
+  describeObservationTable,
+  getObservationSnapshot,
+} from "../lib/observations";
+import { formatZodError, observationQuerySchema } from "../lib/schemas";
+
+export const handleListObservationTables: RequestHandler = (_req, res) => {
+  const { tables } = getObservationSnapshot();
+  const response: ObservationTablesResponse = {
+    tables: getCatalog()
+      .filter((item) => tables.has(getTableId(item)))
+      .map((item) =>
+        describeObservationTable(item, tables.get(getTableId(item))),
+      ),
+  };
+  res.status(200).json(response);
+};
+
+/**
+ * GET /api/observations?table=519-3&year=2023&kecamatan=Medan%20Tuntungan —
+ * query parameters other than table, unit, year, yearFrom, yearTo and limit
+ * filter on dimension values.
+ */
+export const handleQueryObservations: RequestHandler = (req, res) => {
+  const parsed = observationQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    const error: ErrorResponse = { error: formatZodError(parsed.error) };
+    res.status(400).json(error);
+    return;
+  }
+
+  const { table, unit, year, yearFrom, yearTo, limit, ...rest } = parsed.data;
+  const dimensions: Record<string, string> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (typeof value !== "string") {
+      const error: ErrorResponse = { error: `${key}: expected one value` };
+      res.status(400).json(error);
+      return;
+    }
+    dimensions[key] = value;
+  }
+
+  const { observations, tables } = getObservationSnapshot();
+  if (table && !tables.has(table)) {
+    const error: ErrorResponse = { error: "No observations for this table" };
+    res.status(404).json(error);
+    return;
+  }
+
+  const matches = queryObservations(table ? tables.get(table) : observations, {
+    table,
+    unit,
+    dimensions,
+    yearFrom: year ?? yearFrom,
+    yearTo: year ?? yearTo,
+  });
+  const response: ObservationsResponse = {
+    observations: matches.slice(0, limit),
+    total: matches.length,
+  };
+  res.status(200).json(response);
+};
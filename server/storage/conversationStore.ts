@@ -0,0 +1,21 @@
+import { Conversation } from "@shared/api";
+
+export type ConversationPatch = Partial<
+  Pick<Conversation, "title" | "messages">
+>;
+
+/**
+ * Persistence for chat conversations. Implementations must be safe to call
+ * concurrently from overlapping requests.
+ */
+export interface ConversationStore {
+  list(): Promise<Conversation[]>;
+  get(id: string): Promise<Conversation | undefined>;
+  /** Inserts or replaces a conversation by id */
+  save(conversation: Conversation): Promise<Conversation>;
+  update(
+    id: string,
+    patch: ConversationPatch,
+  ): Promise<Conversation | undefined>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,10 @@
+import { FeedbackRecord } from "@shared/api";
+
+/**
+ * Append-only log of answer ratings, kept for offline evaluation of
+ * retrieval quality.
+ */
+export interface FeedbackStore {
+  add(record: FeedbackRecord): Promise<FeedbackRecord>;
+  list(): Promise<FeedbackRecord[]>;
+}
@@ -0,0 +1,88 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Conversation } from "@shared/api";
+import { createFileConversationStore } from "./fileConversationStore";
+
+const conversation = (id: string): Conversation => ({
+  id,
+  title: `Percakapan ${id}`,
+  createdAt: new Date("2025-07-07T10:00:00Z"),
+  updatedAt: new Date("2025-07-07T10:00:00Z"),
+  messages: [
+    {
+      id: `${id}-1`,
+      type: "user",
+      content: "jumlah penduduk",
+      timestamp: new Date("2025-07-07T10:00:00Z"),
+    },
+  ],
+});
+
+describe("createFileConversationStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "conversations-"));
+    file = path.join(dir, "nested", "conversations.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should start empty when the file does not exist", async () => {
+    const store = createFileConversationStore(file);
+    expect(await store.list()).toEqual([]);
+    expect(await store.get("missing")).toBeUndefined();
+  });
+
+  it("should persist conversations across store instances", async () => {
+    await createFileConversationStore(file).save(conversation("a"));
+
+    const reopened = createFileConversationStore(file);
+    expect(await reopened.get("a")).toEqual(conversation("a"));
+  });
+
+  it("should keep the cache as on disk when a write fails", async () => {
+    const store = createFileConversationStore(file);
+    await store.save(conversation("a"));
+    // A directory where the temporary file goes makes the write fail
+    await fs.mkdir(`${file}.${process.pid}.tmp`);
+
+    await expect(store.save(conversation("b"))).rejects.toThrow();
+    await expect(store.delete("a")).rejects.toThrow();
+
+    expect((await store.list()).map((c) => c.id)).toEqual(["a"]);
+  });
+
+  it("should update and delete conversations", async () => {
+    const store = createFileConversationStore(file);
+    await store.save(conversation("a"));
+
+    const updated = await store.update("a", { title: "Baru" });
+    expect(updated?.title).toBe("Baru");
+    expect(updated!.updatedAt.getTime()).toBeGreaterThan(
+      conversation("a").updatedAt.getTime(),
+    );
+    expect(await store.update("missing", { title: "x" })).toBeUndefined();
+
+    expect(await store.delete("a")).toBe(true);
+    expect(await store.delete("a")).toBe(false);
+    expect(await createFileConversationStore(file).list()).toEqual([]);
+  });
+
+  it("should not lose concurrent writes", async () => {
+    const store = createFileConversationStore(file);
+    await Promise.all(
+      ["a", "b", "c"].map((id) => store.save(conversation(id))),
+    );
+
+    const ids = (await createFileConversationStore(file).list()).map(
+      (c) => c.id,
+    );
+    expect(ids.sort()).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,91 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { Conversation } from "@shared/api";
+import { conversationSchema } from "../lib/schemas";
+import { ConversationPatch, ConversationStore } from "./conversationStore";
+
+const fileSchema = z.object({
+  conversations: z.array(conversationSchema),
+});
+
+/**
+ * Stores all conversations in a single JSON file. The file is read once and
+ * kept in memory; writes are serialised and replace the file atomically via
+ * a temporary file and rename.
+ */
+export function createFileConversationStore(
+  filePath: string,
+): ConversationStore {
+  let cache: Map<string, Conversation> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async () => {
+    if (cache) return cache;
+
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const { conversations } = fileSchema.parse(JSON.parse(raw));
+      cache = new Map(conversations.map((c) => [c.id, c]));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      cache = new Map();
+    }
+    return cache;
+  };
+
+  const persist = async (data: Map<string, Conversation>) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(
+      tmpPath,
+      JSON.stringify({ conversations: Array.from(data.values()) }, null, 2),
+    );
+    await fs.rename(tmpPath, filePath);
+  };
+
+  // Changes a copy and swaps it in only once the file is written, so a failed
+  // write leaves the cache matching the disk
+  const mutate = <T>(fn: (data: Map<string, Conversation>) => T) => {
+    const run = queue.then(async () => {
+      const data = new Map(await load());
+      const result = fn(data);
+      await persist(data);
+      cache = data;
+      return result;
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    async list() {
+      const data = await load();
+      return Array.from(data.values()).sort(
+        (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+      );
+    },
+    async get(id) {
+      return (await load()).get(id);
+    },
+    save(conversation) {
+      return mutate((data) => {
+        data.set(conversation.id, conversation);
+        return conversation;
+      });
+    },
+    update(id, patch: ConversationPatch) {
+      return mutate((data) => {
+        const current = data.get(id);
+        if (!current) return undefined;
+
+        const updated = { ...current, ...patch, updatedAt: new Date() };
+        data.set(id, updated);
+        return updated;
+      });
+    },
+    delete(id) {
+      return mutate((data) => data.delete(id));
+    },
+  };
+}
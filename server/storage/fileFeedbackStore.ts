@@ -0,0 +1,41 @@
+import fs from "fs/promises";
+import path from "path";
+import { FeedbackRecord } from "@shared/api";
+import { FeedbackStore } from "./feedbackStore";
+
+/**
+ * Stores feedback as JSON Lines, one record appended per rating, so the file
+ * can be loaded directly into evaluation notebooks.
+ */
+export function createFileFeedbackStore(filePath: string): FeedbackStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    add(record) {
+      const run = queue.then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.appendFile(filePath, `${JSON.stringify(record)}\n`);
+        return record;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+    async list() {
+      let raw: string;
+      try {
+        raw = await fs.readFile(filePath, "utf8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+
+      return raw
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => {
+          const record = JSON.parse(line) as FeedbackRecord;
+          return { ...record, createdAt: new Date(record.createdAt) };
+        });
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import path from "path";
+import { ConversationStore } from "./conversationStore";
+import { createFileConversationStore } from "./fileConversationStore";
+import { FeedbackStore } from "./feedbackStore";
+import { createFileFeedbackStore } from "./fileFeedbackStore";
+
+export type { ConversationPatch, ConversationStore } from "./conversationStore";
+export type { FeedbackStore } from "./feedbackStore";
+
+let conversationStore: ConversationStore | null = null;
+let feedbackStore: FeedbackStore | null = null;
+
+/**
+ * Returns the conversation store backed by CONVERSATIONS_FILE
+ * (default `.data/conversations.json`).
+ */
+export function getConversationStore(): ConversationStore {
+  if (!conversationStore) {
+    conversationStore = createFileConversationStore(
+      path.resolve(
+        process.env.CONVERSATIONS_FILE ?? ".data/conversations.json",
+      ),
+    );
+  }
+  return conversationStore;
+}
+
+/**
+ * Returns the feedback store backed by FEEDBACK_FILE
+ * (default `.data/feedback.jsonl`).
+ */
+export function getFeedbackStore(): FeedbackStore {
+  if (!feedbackStore) {
+    feedbackStore = createFileFeedbackStore(
+      path.resolve(process.env.FEEDBACK_FILE ?? ".data/feedback.jsonl"),
+    );
+  }
+  return feedbackStore;
+}
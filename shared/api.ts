@@ -4,9 +4,299 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
+import type {
+  BPSDataItem,
+  CatalogRowIssue,
+  CatalogSubject,
+  SearchRule,
+} from "./catalog";
+import type { CatalogFilters } from "./filters";
+import type { Observation } from "./observations";
+import type { SearchHit } from "./search";
+import type { SynonymEntry, SynonymIssue } from "./synonyms";
+import type { QueryConstraints, TableTitleInfo } from "./tableTitle";
+
 /**
  * Example response type for /api/demo
  */
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * A single turn of the conversation sent to /api/chat
+ */
+export interface ChatTurn {
+  type: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Request body for POST /api/chat. The last turn must be the user question.
+ */
+export interface ChatRequest {
+  messages: ChatTurn[];
+  /** Also return why each table was ranked (see {@link SearchDebug}) */
+  debug?: boolean;
+  /** Only retrieve tables matching these filters */
+  filters?: CatalogFilters;
+}
+
+export interface ChatSource {
+  title: string;
+  url: string;
+}
+
+/**
+ * Response type for POST /api/chat
+ */
+export interface ChatResponse {
+  answer: string;
+  sources?: ChatSource[];
+  relatedData?: BPSDataItem[];
+  searchDebug?: SearchDebug;
+}
+
+/**
+ * One ranked table in a {@link SearchDebug}: the search hit without the full
+ * catalogue item
+ */
+export interface SearchDebugHit extends Omit<SearchHit, "item"> {
+  title: string;
+  url: string;
+  /** Hybrid mode: cosine similarity between the question and the table */
+  similarity?: number;
+  /** Hybrid mode: blended lexical and similarity score that set the order */
+  blendedScore?: number;
+}
+
+/**
+ * Why the tables behind an answer were ranked the way they were, returned
+ * when the chat request sets `debug`
+ */
+export interface SearchDebug {
+  question: string;
+  /** `hybrid` when embedding similarity was blended into the order */
+  mode: "lexical" | "hybrid";
+  /**
+   * `synonym_subjects` when no word matched and synonym subjects were used;
+   * `filters_recent` when only the newest tables passing `filters` were listed
+   */
+  rule: SearchRule | "synonym_subjects" | "filters_recent";
+  expansions: string[];
+  constraints: QueryConstraints | null;
+  /** Filters chosen in the filter bar, applied after ranking */
+  filters?: CatalogFilters;
+  /** Hits in ranking order, the blended order in hybrid mode */
+  hits: SearchDebugHit[];
+}
+
+/**
+ * Error body returned by API routes on failure
+ */
+export interface ErrorResponse {
+  error: string;
+}
+
+/**
+ * Server-Sent Event emitted by POST /api/chat/stream. Each event is sent as
+ * `event: <type>` with the JSON-encoded payload as `data`.
+ */
+export type ChatStreamEvent =
+  | {
+      type: "meta";
+      sources?: ChatSource[];
+      relatedData?: BPSDataItem[];
+      searchDebug?: SearchDebug;
+    }
+  | { type: "token"; text: string }
+  | { type: "done" }
+  | { type: "error"; error: string };
+
+/**
+ * A chat message as shown in the UI and stored with its conversation.
+ * Dates travel as ISO strings over JSON.
+ */
+export interface Message {
+  id: string;
+  /**
+   * Message this one replies to; `null` for the first message. Edits and
+   * regenerations add siblings under the same parent, forming a tree.
+   */
+  parentId?: string | null;
+  content: string;
+  type: "user" | "assistant";
+  timestamp: Date;
+  sources?: ChatSource[];
+  relatedData?: BPSDataItem[];
+  /** Ranking breakdown shown in debug mode; not stored on the server */
+  searchDebug?: SearchDebug;
+  /** Filters the answer was retrieved with, shown as chips */
+  filters?: CatalogFilters;
+  /** The user's rating of an assistant answer */
+  feedback?: MessageFeedback;
+}
+
+export type FeedbackRating = "up" | "down";
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Every message of every branch, in creation order */
+  messages: Message[];
+  /** Last message of the branch currently shown; defaults to the newest */
+  currentLeafId?: string | null;
+}
+
+/**
+ * Response type for GET /api/conversations
+ */
+export interface ConversationListResponse {
+  conversations: Conversation[];
+}
+
+/**
+ * Request body for POST /api/conversations and PATCH /api/conversations/:id
+ */
+export interface ConversationInput {
+  title: string;
+  messages?: Message[];
+}
+
+/**
+ * A related table as ranked for an answer, recorded with feedback
+ */
+export interface RankedItem {
+  rank: number;
+  subject_id: number;
+  title: string;
+  url: string;
+}
+
+/**
+ * Request body for POST /api/feedback
+ */
+export interface FeedbackRequest extends MessageFeedback {
+  conversationId?: string;
+  messageId: string;
+  question: string;
+  answer: string;
+  /** Distinct subject ids of the answer's related data */
+  subjectIds: number[];
+  /** Related data in the order the search returned it */
+  ranking: RankedItem[];
+}
+
+/**
+ * A stored feedback entry, also the response of POST /api/feedback
+ */
+export interface FeedbackRecord extends FeedbackRequest {
+  id: string;
+  createdAt: Date;
+}
+
+/**
+ * Response type for GET /api/catalog
+ */
+export interface CatalogResponse {
+  /** Content hash of the loaded catalogue, also the response ETag */
+  version: string;
+  /** ISO timestamp of when the server loaded the catalogue */
+  loadedAt: string;
+  categories: string[];
+  subjects: CatalogSubject[];
+  items: BPSDataItem[];
+  /** Validated synonym dictionary, so client-side search expands queries too */
+  synonyms: SynonymEntry[];
+}
+
+/**
+ * Response type for GET /api/catalog/subjects/:id
+ */
+export interface CatalogSubjectResponse {
+  subject: CatalogSubject;
+  items: BPSDataItem[];
+}
+
+/**
+ * Response type for GET /api/catalog/tables/:id
+ */
+export interface CatalogTableResponse {
+  id: string;
+  item: BPSDataItem;
+  /** Measure, breakdowns, unit and year coverage parsed from the title */
+  title: TableTitleInfo;
+}
+
+/**
+ * A validation finding for one row of a catalogue CSV file
+ */
+export interface CatalogIssue extends CatalogRowIssue {
+  file: string;
+}
+
+/**
+ * Response type for GET /api/admin/catalog/report
+ */
+export interface CatalogReport {
+  version: string;
+  loadedAt: string;
+  /** Rows read and accepted per CSV file */
+  files: { file: string; rows: number; accepted: number }[];
+  issues: CatalogIssue[];
+  /** Issue totals per kind */
+  counts: Record<CatalogIssue["kind"], number>;
+  /** Entries accepted from synonyms.json and the problems found in it */
+  synonyms: { entries: number; issues: SynonymIssue[] };
+  /** Why the latest reload failed; the previous catalogue stays active */
+  reloadError?: { message: string; at: string };
+}
+
+/**
+ * A catalogue table whose numeric contents have been ingested
+ */
+export interface ObservationTable {
+  tableId: string;
+  title: string;
+  url: string;
+  /** Distinct values per dimension key, e.g. `kecamatan` */
+  dimensions: Record<string, string[]>;
+  years: number[];
+  units: string[];
+  count: number;
+}
+
+/**
+ * Response type for GET /api/observations/tables
+ */
+export interface ObservationTablesResponse {
+  tables: ObservationTable[];
+}
+
+/**
+ * Response type for GET /api/observations
+ */
+export interface ObservationsResponse {
+  observations: Observation[];
+  /** Matches before `limit` was applied */
+  total: number;
+}
+
+/**
+ * Response type for GET /api/admin/observations/report
+ */
+export interface ObservationReport {
+  loadedAt: string;
+  /** Observations accepted per source file */
+  files: { file: string; tableId: string; observations: number }[];
+  issues: { file: string; message: string }[];
+  /** Why the latest reload failed; the previous observations stay active */
+  reloadError?: { message: string; at: string };
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  BPSDataItem,
+  formatIndonesianDate,
+  getTitleInfo,
+  parseCsvToItems,
+  parseCsvWithIssues,
+  parseIndonesianDate,
+  searchCatalog,
+  sortByRecency,
+} from "./catalog";
+
+const CSV = [
+  "parent_category,parent_subject_id,parent_title,parent_url,row_number,title,last_updated,url,extracted_at",
+  'Statistik Demografi dan Sosial,519,Kependudukan dan Migrasi,https://medankota.bps.go.id/id/statistics-table?subject=519,1,"Rasio Jenis Kelamin Penduduk Kota Medan Menurut Kecamatan (Persen), 2001 - 2024",7 Juli 2025,https://medankota.bps.go.id/id/statistics-table?subject=519#row-1,2025-08-26T13:11:56.436551',
+  'Statistik Demografi dan Sosial,519,Kependudukan dan Migrasi,https://medankota.bps.go.id/id/statistics-table?subject=519,2,"Jumlah Penduduk Kota Medan Menurut Kecamatan, 2022 - 2024",-,https://medankota.bps.go.id/id/statistics-table?subject=519#row-2,2025-08-26T13:11:56.601632',
+].join("\n");
+
+describe("parseIndonesianDate", () => {
+  it("should parse full and abbreviated month names", () => {
+    expect(parseIndonesianDate("7 Juli 2025")).toBe("2025-07-07");
+    expect(parseIndonesianDate("15 Agt 2024")).toBe("2024-08-15");
+    expect(parseIndonesianDate(" 1 desember 2023 ")).toBe("2023-12-01");
+  });
+
+  it("should return null for empty or invalid dates", () => {
+    expect(parseIndonesianDate("-")).toBeNull();
+    expect(parseIndonesianDate("")).toBeNull();
+    expect(parseIndonesianDate("31 Februari 2025")).toBeNull();
+    expect(parseIndonesianDate("7 Juillet 2025")).toBeNull();
+  });
+
+  it("should round-trip with formatIndonesianDate", () => {
+    expect(formatIndonesianDate(parseIndonesianDate("7 Juli 2025"))).toBe(
+      "7 Juli 2025",
+    );
+  });
+});
+
+describe("parseCsvToItems", () => {
+  it("should keep the CSV row fields", () => {
+    const [first, second] = parseCsvToItems(CSV);
+
+    expect(first).toMatchObject({
+      subject_id: 519,
+      row_number: 1,
+      last_updated: "2025-07-07",
+      parent_title: "Kependudukan dan Migrasi",
+      parent_url: "https://medankota.bps.go.id/id/statistics-table?subject=519",
+      extracted_at: "2025-08-26T13:11:56.436551",
+      scraped_at: "2025-08-26T13:11:56.436551",
+    });
+    expect(second.row_number).toBe(2);
+    expect(second.last_updated).toBeNull();
+  });
+});
+
+describe("parseCsvWithIssues", () => {
+  it("should reject rows with malformed quotes or missing fields", () => {
+    const [header, good] = CSV.split("\n");
+    const { items, issues } = parseCsvWithIssues(
+      [header, good, 'Statistik,519,"Kependudukan', "Statistik,519"].join("\n"),
+    );
+
+    expect(items).toHaveLength(1);
+    expect(issues).toEqual([
+      {
+        kind: "rejected",
+        line: 3,
+        message: "Unterminated quoted field starting on line 3",
+      },
+    ]);
+  });
+
+  it("should reject rows with the wrong number of fields", () => {
+    const [header, good] = CSV.split("\n");
+    const { items, issues } = parseCsvWithIssues(
+      [header, good, "Statistik,519"].join("\n"),
+    );
+
+    expect(items).toHaveLength(1);
+    expect(issues).toEqual([
+      { kind: "rejected", line: 3, message: "Expected 9 fields, got 2" },
+    ]);
+  });
+});
+
+describe("sortByRecency", () => {
+  it("should put the most recently updated tables first", () => {
+    const item = (title: string, last_updated: string | null) =>
+      ({ title, last_updated, scraped_at: "" }) as BPSDataItem;
+    const sorted = sortByRecency([
+      item("lama", "2023-01-05"),
+      item("tanpa tanggal", null),
+      item("baru", "2025-07-07"),
+    ]);
+
+    expect(sorted.map((i) => i.title)).toEqual([
+      "baru",
+      "lama",
+      "tanpa tanggal",
+    ]);
+  });
+});
+
+describe("searchCatalog", () => {
+  const items = parseCsvToItems(
+    readFileSync(
+      path.resolve(__dirname, "../data/catalog/data fix.csv"),
+      "utf8",
+    ),
+  );
+
+  it("should only return tables covering the requested year", () => {
+    const results = searchCatalog(items, "penduduk 2005");
+
+    expect(results.length).toBeGreaterThan(0);
+    results.forEach((item) => {
+      const { startYear, endYear } = getTitleInfo(item);
+      expect(startYear).toBeLessThanOrEqual(2005);
+      expect(endYear).toBeGreaterThanOrEqual(2005);
+    });
+  });
+
+  it("should filter on the requested breakdown", () => {
+    const results = searchCatalog(items, "jumlah penduduk per kecamatan");
+
+    expect(results[0].title).toContain("Penduduk");
+    results.forEach((item) => {
+      expect(getTitleInfo(item).dimensions).toContain("Kecamatan");
+    });
+  });
+
+  it("should fall back to word matching when no table fits", () => {
+    expect(searchCatalog(items, "penduduk 1950")).toEqual(
+      searchCatalog(items, "penduduk"),
+    );
+  });
+});
@@ -0,0 +1,773 @@
+// Katalog data BPS Kota Medan: parsing CSV hasil scraping dan pencarian,
+// dipakai bersama oleh client dan server
+import { parseCsv } from "./csv";
+import { getSearchIndex, searchIndex, SearchHit, unscoredHit } from "./search";
+import { matchSynonyms, SynonymEntry } from "./synonyms";
+import {
+  hasConstraints,
+  matchesConstraints,
+  parseQueryConstraints,
+  parseTableTitle,
+  QueryConstraints,
+  TableTitleInfo,
+} from "./tableTitle";
+
+export interface BPSDataItem {
+  category: string;
+  subject_id: number;
+  url: string;
+  title: string;
+  description: string;
+  scraped_at: string;
+  table_count: number;
+  // Field khusus baris tabel dari CSV (tidak ada pada data statis per subjek)
+  row_number?: number;
+  /** Tanggal pembaruan tabel di portal BPS, format ISO `YYYY-MM-DD` */
+  last_updated?: string | null;
+  parent_title?: string;
+  parent_url?: string;
+  /** Waktu baris ini diambil oleh scraper (ISO timestamp) */
+  extracted_at?: string;
+}
+
+/** Subjek BPS (halaman statistics-table) yang mengelompokkan tabel katalog */
+export interface CatalogSubject {
+  id: number;
+  title: string;
+  category: string;
+  url: string;
+  tableCount: number;
+  /** Tanggal pembaruan tabel terbaru di subjek ini (ISO `YYYY-MM-DD`) */
+  lastUpdated: string | null;
+}
+
+export const bpsDataStatic: BPSDataItem[] = [
+  // Statistik Demografi dan Sosial
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 519,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=519",
+    title: "Kependudukan dan Migrasi",
+    description:
+      "Mencakup pekerjaan dalam statistik populasi dan demografis, topik seperti demografi, statistik vital, struktur dan pertumbuhan populasi, proyeksi demografis, keluarga dan rumah tangga (perkawinan, perceraian, ukuran rumah tangga), migrasi, pengungsi, dan pencari suaka.",
+    scraped_at: "2025-08-21T15:30:22.212532",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 520,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=520",
+    title: "Tenaga Kerja",
+    description:
+      "Mencakup statistik tentang angkatan kerja, pasar tenaga kerja, lapangan kerja dan pengangguran; topik yang lebih rinci meliputi populasi yang aktif secara ekonomi, kondisi tenaga kerja, kesehatan dan keselamatan di tempat kerja (kecelakaan di tempat kerja, cedera dan penyakit akibat kerja, masalah kesehatan terkait pekerjaan), waktu kerja dan kondisi kerja lainnya, pemogokan dan larangan bekerja, lowongan pekerjaan, penciptaan lapangan kerja.",
+    scraped_at: "2025-08-21T15:30:28.687034",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 521,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=521",
+    title: "Pendidikan",
+    description:
+      "Termasuk partisipasi pendidikan, buta huruf, lembaga dan sistem pendidikan, sumber daya manusia dan keuangan yang diinvestasikan dalam pendidikan, pembelajaran seumur hidup, pelatihan kejuruan dan pembelajaran orang dewasa, dampak pendidikan, penilaian kinerja siswa, dll.",
+    scraped_at: "2025-08-21T15:30:35.246896",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 522,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=522",
+    title: "Kesehatan",
+    description:
+      "Mencakup aktivitas statistik terkait kesehatan dan kematian, termasuk topik seperti harapan hidup, status kesehatan, kesehatan dan keselamatan, penentu kesehatan (termasuk gaya hidup, nutrisi, merokok, penyalahgunaan alkohol), sumber daya dan pengeluaran kesehatan, sistem perawatan kesehatan, morbiditas dan mortalitas (termasuk kematian bayi dan anak), masuk rumah sakit, penyebab penyakit dan kematian, penyakit tertentu (misalnya AIDS), kecacatan, konsumsi dan penjualan farmasi, tenaga kesehatan, remunerasi profesi kesehatan, status kesehatan lingkungan, ketidaksetaraan kesehatan, neraca kesehatan.",
+    scraped_at: "2025-08-21T15:30:41.632211",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 523,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=523",
+    title: "Konsumsi dan Pendapatan",
+    description:
+      "Mencakup statistik pendapatan dan pengeluaran rumah tangga dari sudut pandang rumah tangga (semua jenis pendapatan dan pengeluaran), termasuk topik seperti distribusi pendapatan, pendapatan dalam bentuk natura, transfer pendapatan yang diterima dan dibayarkan, pengukuran kemiskinan berbasis pendapatan atau pengeluaran, perlindungan konsumen, pola konsumsi, barang konsumsi dan barang tahan lama, kekayaan dan utang rumah tangga.",
+    scraped_at: "2025-08-21T15:30:48.110227",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 524,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=524",
+    title: "Perlindungan Sosial",
+    description:
+      "Berurusan dengan statistik tentang langkah-langkah untuk melindungi orang dari risiko pendapatan yang tidak memadai terkait dengan pengangguran, kesehatan yang buruk, cacat, usia tua, tanggung jawab orang tua, atau pendapatan yang tidak memadai setelah kehilangan pasangan atau orang tua, dll., termasuk statistik tentang penerima pensiun, skema jaminan sosial, pengeluaran perlindungan sosial, dll.",
+    scraped_at: "2025-08-21T15:30:54.468253",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 525,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=525",
+    title: "Pemukiman dan Perumahan",
+    description:
+      "Mencakup kegiatan statistik tentang perumahan, tempat tinggal, dan pemukiman manusia.",
+    scraped_at: "2025-08-21T15:31:00.869516",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 526,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=526",
+    title: "Hukum dan Kriminal",
+    description:
+      "Kegiatan termasuk kejahatan, hukuman, pengoperasian sistem peradilan pidana, keadilan, keselamatan, korban, tingkat pembersihan, populasi penjara, produksi obat-obatan terlarang, perdagangan dan penggunaan, dll.",
+    scraped_at: "2025-08-21T15:31:07.417153",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 527,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=527",
+    title: "Budaya",
+    description:
+      "Statistik yang berhubungan dengan kegiatan budaya dalam masyarakat, seperti teater, bioskop, museum, perpustakaan, media massa, produksi buku, olahraga, dll., termasuk pengeluaran dan pembiayaan budaya.",
+    scraped_at: "2025-08-21T15:31:13.799755",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 528,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=528",
+    title: "Aktivitas Politik dan Komunitas Lainnya",
+    description:
+      "Statistik jumlah pemilih, partisipasi dalam kegiatan politik dan masyarakat lainnya, keanggotaan serikat pekerja, dialog sosial, masyarakat sipil, modal sosial, dll.",
+    scraped_at: "2025-08-21T15:31:20.249088",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Demografi dan Sosial",
+    subject_id: 529,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=529",
+    title: "Penggunaan Waktu",
+    description:
+      "Statistik tentang penggunaan waktu oleh individu, seringkali terkait dengan keseimbangan kehidupan kerja (rekonsiliasi tanggung jawab keluarga dan pekerjaan berbayar); pekerjaan yang tidak dibayar.",
+    scraped_at: "2025-08-21T15:31:26.599541",
+    table_count: 1,
+  },
+
+  // Statistik Ekonomi
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 530,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=530",
+    title: "Statistik Makroekonomi",
+    description:
+      "Semua kegiatan yang berkaitan dengan statistik ekonomi secara luas pada tingkat makro, atau berbeda dari Neraca Nasional, baik tahunan, triwulanan, atau bulanan. Contohnya adalah database ekonomi makro yang menggabungkan akun nasional dan indikator ekonomi makro lainnya seperti Indikator Ekonomi Utama (OECD), dll.; kecenderungan bisnis dan survei pendapat konsumen, pertumbuhan ekonomi, stabilitas dan penyesuaian struktural, indikator siklus, statistik untuk analisis siklus bisnis.",
+    scraped_at: "2025-08-21T15:31:33.053310",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 531,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=531",
+    title: "Neraca Ekonomi",
+    description:
+      "Mencakup pekerjaan pada Neraca Ekonomi dengan harga saat ini dan konstan, berurusan dengan topik-topik seperti implementasi Sistem Neraca Ekonomi, Produk Domestik Bruto (PDB), Pendapatan Nasional Bruto (PDB), perekonomian non-observed dan informal, pengukuran modal, tabel input-output, neraca, dll.",
+    scraped_at: "2025-08-21T15:31:39.496127",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 532,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=532",
+    title: "Statistik Bisnis",
+    description:
+      "Statistik ekonomi luas tentang kegiatan perusahaan, mencakup pekerjaan pada statistik ekonomi di berbagai sektor, berkaitan dengan topik seperti statistik kegiatan ekonomi perusahaan, demografi bisnis, investasi bisnis, layanan bisnis, permintaan layanan, kinerja industri, kelompok perusahaan , produksi industri, komoditas, struktur penjualan dan jasa, hasil industri jasa, lembaga nirlaba.",
+    scraped_at: "2025-08-21T15:31:45.855906",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 533,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=533",
+    title: "Statistik sektoral",
+    description:
+      "Kegiatan statistik yang berhubungan dengan salah satu cabang industri atau layanan tertentu yang disebutkan pada tingkat klasifikasi tiga digit.",
+    scraped_at: "2025-08-21T15:31:52.133355",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 534,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=534",
+    title: "Keuangan Pemerintah, Fiskal dan Statistik Sektor Publik",
+    description:
+      "Semua statistik yang terkait dengan sektor pemerintah, termasuk utang dan defisit, pendapatan dan pengeluaran, rekening sektor pemerintah, pemerintah pusat, tarif dan pendapatan pajak, sistem pajak dan manfaat, pembiayaan pensiun negara dan skema jaminan sosial negara lainnya, pekerjaan sektor publik.",
+    scraped_at: "2025-08-21T15:31:58.463335",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 535,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=535",
+    title: "Perdagangan Internasional dan Neraca Pembayaran",
+    description:
+      "Berurusan dengan statistik semua transaksi lintas batas yang dicatat dalam neraca pembayaran, termasuk topik seperti perdagangan barang dan jasa, posisi dan utang eksternal, investasi asing langsung, perdagangan afiliasi asing, tarif, akses pasar, bantuan luar negeri , bantuan pembangunan, aliran sumber daya ke negara-negara berkembang.",
+    scraped_at: "2025-08-21T15:32:04.943123",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 536,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=536",
+    title: "Harga-Harga",
+    description:
+      "Mencakup semua aktivitas statistik yang berhubungan dengan harga, termasuk Paritas Daya Beli (PPP) dan perbandingan PDB internasional, mencakup topik seperti Indeks Harga Konsumen (CPI), inflasi, Indeks Harga Produsen (PPI), indeks harga untuk produk dan layanan tertentu ( misalnya produk Teknologi Informasi dan Komunikasi).",
+    scraped_at: "2025-08-21T15:32:11.339593",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 537,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=537",
+    title: "Biaya Tenaga Kerja",
+    description:
+      "Kegiatan statistik tentang biaya tenaga kerja, penghasilan dan upah, baik untuk statistik struktural maupun jangka pendek.",
+    scraped_at: "2025-08-21T15:32:17.704386",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 538,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=538",
+    title: "Ilmu Pengetahuan, Teknologi, dan Inovasi",
+    description:
+      "Termasuk Penelitian dan Pengembangan (R&D), inovasi, paten, sumber daya manusia (dalam sains, teknologi, dan inovasi), industri teknologi tinggi dan layanan berbasis pengetahuan, bioteknologi, pembiayaan R&D, dan inovasi.",
+    scraped_at: "2025-08-21T15:32:24.106361",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 557,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=557",
+    title: "Pertanian, Kehutanan, Perikanan",
+    description:
+      "Mencakup semua statistik terkait pertanian, kehutanan, dan perikanan, mis. statistik moneter pertanian (akun ekonomi pertanian), struktur pertanian (struktur pertanian), perdagangan produk pertanian, input tenaga kerja pertanian, produksi tanaman dan hewan, komoditas pertanian, statistik agroindustri (termasuk produksi dan keamanan pangan), pertanian organik dan pangan organik , pengeluaran pemerintah untuk pertanian, perikanan dan kehutanan, tabel sumber dan penggunaan produk, statistik hasil hutan dan hutan, penilaian sumber daya hutan dan kebakaran hutan, perdagangan hasil hutan, perikanan.",
+    scraped_at: "2025-08-21T15:32:30.367790",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 558,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=558",
+    title: "Energi",
+    description:
+      "Pasokan energi, penggunaan energi, keseimbangan energi, keamanan pasokan, pasar energi, perdagangan energi, efisiensi energi, sumber energi terbarukan, pengeluaran pemerintah untuk energi.",
+    scraped_at: "2025-08-21T15:32:36.708851",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 559,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=559",
+    title: "Pertambangan, Manufaktur, Konstruksi",
+    description:
+      "Statistik kegiatan industri tertentu, mis. baja, galangan kapal, dan konstruksi, memperdagangkan produk khusus yang terkait dengan pertambangan, manufaktur, dan konstruksi.",
+    scraped_at: "2025-08-21T15:32:43.113840",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 560,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=560",
+    title: "Transportasi",
+    description:
+      "Mencakup statistik semua moda transportasi (udara, kereta api, jalan raya, perairan darat, laut), termasuk topik seperti infrastruktur transportasi, peralatan, arus lalu lintas, mobilitas pribadi, keselamatan, konsumsi energi, perusahaan transportasi, angkutan penumpang dan barang, transportasi tren sektor, kecelakaan lalu lintas jalan.",
+    scraped_at: "2025-08-21T15:32:49.508308",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 561,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=561",
+    title: "Pariwisata",
+    description:
+      "Mencakup statistik mengenai aktivitas pengunjung (seperti kedatangan/keberangkatan, menginap semalam, pengeluaran, tujuan kunjungan, dll.) yang terkait dengan berbagai bentuk pariwisata (inbound, domestik dan outbound), kegiatan industri pariwisata dan infrastruktur, ketenagakerjaan dan akun satelit pariwisata.",
+    scraped_at: "2025-08-21T15:32:55.889430",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Ekonomi",
+    subject_id: 562,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=562",
+    title: "Perbankan, Asuransi dan Finansial",
+    description:
+      "Statistik uang, perbankan dan pasar keuangan, termasuk rekening keuangan, jumlah uang beredar, suku bunga, nilai tukar, indikator pasar saham, sekuritas, profitabilitas bank, asuransi sektor swasta dan statistik dana pensiun, Indikator Kesehatan Keuangan.",
+    scraped_at: "2025-08-21T15:33:02.363307",
+    table_count: 1,
+  },
+
+  // Statistik Lingkungan Hidup dan Multi-domain
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 539,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=539",
+    title: "Lingkungan",
+    description:
+      "Termasuk topik seperti iklim, perubahan iklim (termasuk pengukuran aspek sosial ekonomi dari dampak perubahan iklim, kerentanan dan adaptasi), keanekaragaman hayati, lingkungan dan kesehatan, sumber daya alam, tanah, air, udara, lanskap, limbah, pengeluaran lingkungan, pengeluaran untuk perlindungan lingkungan, neraca lingkungan, indikator agri-lingkungan, tekanan lingkungan, dampak lingkungan dari industri, transportasi, energi dll., pemantauan lingkungan, analisis aliran material, indikator decoupling lingkungan, polusi, ekosistem, penggunaan dan tutupan lahan, perlindungan lingkungan, kawasan lindung nasional.",
+    scraped_at: "2025-08-21T15:33:08.823345",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 540,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=540",
+    title: "Statistik Regional dan Statistik Area Kecil",
+    description:
+      "Kegiatan yang berkaitan dengan statistik regional dan statistik yang mengacu pada wilayah sub-nasional atau wilayah berdasarkan unit administrasi, statistik perkotaan dan pedesaan, pembangunan pedesaan, akun regional, tipologi regional, dan kesenjangan regional.",
+    scraped_at: "2025-08-21T15:33:15.463323",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 541,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=541",
+    title: "Statistik dan Indikator Multi-Domain",
+    description:
+      "Berurusan dengan pekerjaan konseptual atau data berdasarkan pendekatan tematik khusus untuk keluaran yang melintasi beberapa bidang studi ekonomi, sosial atau lingkungan.",
+    scraped_at: "2025-08-21T15:33:21.918319",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 542,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=542",
+    title: "Buku Tahunan dan Ringkasan Sejenis",
+    description:
+      "Publikasi statistik multi-domain, basis data, dan produk data lainnya tanpa fokus tematik atau berorientasi masalah tertentu.",
+    scraped_at: "2025-08-21T15:33:28.403425",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 563,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=563",
+    title:
+      "Kondisi Tempat Tinggal, Kemiskinan, dan Permasalahan Sosial Lintas Sektor",
+    description:
+      "Termasuk pekerjaan pada metode multidimensi untuk mengukur kemiskinan, kondisi kehidupan dalam arti luas, inklusi/eksklusi sosial, indikator sosial, dan situasi sosial.",
+    scraped_at: "2025-08-21T15:33:34.808995",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 564,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=564",
+    title: "Gender dan Kelompok Populasi Khusus",
+    description:
+      "Kondisi kehidupan dan peran mereka dalam masyarakat: perbandingan laki-laki/perempuan dan situasi kelompok populasi khusus seperti anak-anak, remaja, perempuan, lanjut usia, orang cacat, kelompok minoritas, dll.",
+    scraped_at: "2025-08-21T15:33:41.166404",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 565,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=565",
+    title: "Masyarakat Informasi",
+    description:
+      "Statistik yang memungkinkan untuk menilai penggunaan dan dampak teknologi informasi dan komunikasi pada masyarakat, termasuk akses dan penggunaan TIK (termasuk Internet), pengeluaran dan investasi TIK, infrastruktur TIK, jaringan telekomunikasi, komunikasi elektronik, e-government, perdagangan elektronik , e-learning, penetrasi broadband, layanan TIK, tarif komunikasi, infrastruktur jaringan, pendapatan, pengeluaran dan investasi operator, indikator Internet, perdagangan peralatan telekomunikasi.",
+    scraped_at: "2025-08-21T15:33:47.576097",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 566,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=566",
+    title: "Globalisasi",
+    description:
+      "Berurusan dengan mengukur aktivitas ekonomi perusahaan multinasional, serta dengan upaya untuk mengukur globalisasi melalui berbagai komponen dari bidang studi lainnya.",
+    scraped_at: "2025-08-21T15:33:54.046544",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 567,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=567",
+    title: "Indikator Millenium Development Goals (MDGs)",
+    description:
+      "Mengerjakan serangkaian indikator untuk memantau pencapaian Tujuan Pembangunan Milenium yang disepakati di KTT Milenium PBB.",
+    scraped_at: "2025-08-21T15:34:00.467586",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 568,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=568",
+    title: "Perkembangan Berkelanjutan",
+    description:
+      "Mengerjakan indikator dan kerangka kerja untuk memantau dimensi ekonomi, sosial dan lingkungan dari pembangunan berkelanjutan.",
+    scraped_at: "2025-08-21T15:34:07.071472",
+    table_count: 1,
+  },
+  {
+    category: "Statistik Lingkungan Hidup dan Multi-domain",
+    subject_id: 569,
+    url: "https://medankota.bps.go.id/id/statistics-table?subject=569",
+    title: "Kewiraswastaan",
+    description:
+      "Pengukuran determinan, kinerja dan dampak kegiatan kewirausahaan orang dan organisasi.",
+    scraped_at: "2025-08-21T15:34:13.510939",
+    table_count: 1,
+  },
+];
+
+const INDONESIAN_MONTHS: Record<string, number> = {
+  januari: 1,
+  jan: 1,
+  februari: 2,
+  feb: 2,
+  maret: 3,
+  mar: 3,
+  april: 4,
+  apr: 4,
+  mei: 5,
+  juni: 6,
+  jun: 6,
+  juli: 7,
+  jul: 7,
+  agustus: 8,
+  agu: 8,
+  agt: 8,
+  ags: 8,
+  september: 9,
+  sep: 9,
+  sept: 9,
+  oktober: 10,
+  okt: 10,
+  november: 11,
+  nov: 11,
+  nopember: 11,
+  desember: 12,
+  des: 12,
+};
+
+// Mengubah tanggal seperti "7 Juli 2025" menjadi "2025-07-07"; null jika kosong
+// ("-") atau tidak dapat dibaca
+export const parseIndonesianDate = (text: string): string | null => {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})\s+([a-z]+)\.?\s+(\d{4})$/);
+  if (!match) return null;
+
+  const day = Number(match[1]);
+  const month = INDONESIAN_MONTHS[match[2]];
+  const year = Number(match[3]);
+  if (!month) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const MONTH_NAMES = [
+  "Januari",
+  "Februari",
+  "Maret",
+  "April",
+  "Mei",
+  "Juni",
+  "Juli",
+  "Agustus",
+  "September",
+  "Oktober",
+  "November",
+  "Desember",
+];
+
+// Kebalikan dari parseIndonesianDate: "2025-07-07" menjadi "7 Juli 2025"
+export const formatIndonesianDate = (isoDate: string): string => {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return `${day} ${MONTH_NAMES[month - 1]} ${year}`;
+};
+
+interface BpsCsvRow {
+  parent_category: string;
+  parent_subject_id: string;
+  parent_title: string;
+  parent_url: string;
+  row_number: string;
+  title: string;
+  last_updated: string;
+  url: string;
+  extracted_at: string;
+}
+
+/** Masalah pada satu baris CSV katalog */
+export interface CatalogRowIssue {
+  kind: "rejected" | "duplicate_url" | "unknown_subject" | "invalid_date";
+  /** Nomor baris di file CSV; header adalah baris 1 */
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  items: BPSDataItem[];
+  /** Nomor baris CSV untuk setiap item, sejajar dengan `items` */
+  lines: number[];
+  issues: CatalogRowIssue[];
+  /** Jumlah baris data (tanpa header dan baris kosong) */
+  rows: number;
+}
+
+const KNOWN_SUBJECT_IDS = new Set(bpsDataStatic.map((item) => item.subject_id));
+
+const REQUIRED_FIELDS = ["category", "subject_id", "title", "url"] as const;
+
+const toCatalogItem = (
+  r: BpsCsvRow,
+): { item: BPSDataItem | null; issues: Omit<CatalogRowIssue, "line">[] } => {
+  const subjectId = parseInt(
+    (r.parent_subject_id || "").replace(/[^0-9-]/g, ""),
+    10,
+  );
+  const rowNumber = parseInt(r.row_number || "", 10);
+  const lastUpdated = parseIndonesianDate(r.last_updated || "");
+  const item: BPSDataItem = {
+    category: r.parent_category || "",
+    subject_id: Number.isFinite(subjectId) ? subjectId : 0,
+    url: r.url || r.parent_url || "",
+    title: r.title || r.parent_title || "",
+    description: r.parent_title || "",
+    scraped_at: r.extracted_at || "",
+    table_count: 1,
+    row_number: Number.isFinite(rowNumber) ? rowNumber : undefined,
+    last_updated: lastUpdated,
+    parent_title: r.parent_title || "",
+    parent_url: r.parent_url || "",
+    extracted_at: r.extracted_at || "",
+  };
+
+  const missing = REQUIRED_FIELDS.filter((field) => !item[field]);
+  if (missing.length > 0) {
+    return {
+      item: null,
+      issues: [{ kind: "rejected", message: `Missing ${missing.join(", ")}` }],
+    };
+  }
+
+  const issues: Omit<CatalogRowIssue, "line">[] = [];
+  if (!KNOWN_SUBJECT_IDS.has(item.subject_id)) {
+    issues.push({
+      kind: "unknown_subject",
+      message: `Unknown subject id ${item.subject_id}`,
+    });
+  }
+  const rawDate = (r.last_updated || "").trim();
+  if (!lastUpdated && rawDate && rawDate !== "-") {
+    issues.push({
+      kind: "invalid_date",
+      message: `Unparseable last_updated "${rawDate}"`,
+    });
+  }
+  return { item, issues };
+};
+
+// Parsing CSV beserta catatan baris yang ditolak atau mencurigakan. Baris tanpa
+// kategori, subjek, judul atau URL ditolak; subjek yang tidak dikenal dan
+// tanggal yang tidak terbaca tetap dimuat tetapi dicatat.
+export const parseCsvWithIssues = (csv: string): CsvParseResult => {
+  const result: CsvParseResult = { items: [], lines: [], issues: [], rows: 0 };
+  if (!csv || csv.trim().length === 0) return result;
+  const { header, records } = parseCsv(csv);
+
+  for (const record of records) {
+    const cols = record.fields.map((value) => value.trim());
+    if (cols.every((value) => value === "")) continue;
+    result.rows++;
+
+    const reject = (message: string) =>
+      result.issues.push({ kind: "rejected", line: record.line, message });
+    if (record.error) {
+      reject(record.error);
+      continue;
+    }
+    // Kolom kosong tambahan di akhir (umum pada ekspor Excel) diabaikan
+    const width = cols.length - [...cols].reverse().findIndex((v) => v !== "");
+    if (width > header.length || cols.length < header.length) {
+      reject(`Expected ${header.length} fields, got ${cols.length}`);
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    header.forEach((name, c) => {
+      row[name] = cols[c];
+    });
+
+    const { item, issues } = toCatalogItem(row as unknown as BpsCsvRow);
+    result.issues.push(
+      ...issues.map((issue) => ({ ...issue, line: record.line })),
+    );
+    if (item) {
+      result.items.push(item);
+      result.lines.push(record.line);
+    }
+  }
+
+  return result;
+};
+
+export const parseCsvToItems = (csv: string): BPSDataItem[] =>
+  parseCsvWithIssues(csv).items;
+
+// Tanggal pembaruan tabel, atau waktu scraping untuk data tanpa last_updated
+export const getItemDate = (item: BPSDataItem): Date | null => {
+  const date = new Date(item.last_updated || item.scraped_at);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Urutkan dari tabel yang paling baru diperbarui; tanpa tanggal di akhir
+export const sortByRecency = (items: BPSDataItem[]): BPSDataItem[] =>
+  [...items].sort(
+    (a, b) =>
+      (getItemDate(b)?.getTime() ?? 0) - (getItemDate(a)?.getTime() ?? 0),
+  );
+
+// Id tabel untuk URL API: "<subject_id>-<row_number>", atau subject_id saja
+// untuk data statis per subjek
+export const getTableId = (item: BPSDataItem): string =>
+  item.row_number
+    ? `${item.subject_id}-${item.row_number}`
+    : String(item.subject_id);
+
+// Ringkasan subjek dari item katalog, urut sesuai kemunculan pertama
+export const getCatalogSubjects = (items: BPSDataItem[]): CatalogSubject[] => {
+  const subjects = new Map<number, CatalogSubject>();
+
+  for (const item of items) {
+    const subject = subjects.get(item.subject_id);
+    if (!subject) {
+      subjects.set(item.subject_id, {
+        id: item.subject_id,
+        title: item.parent_title || item.title,
+        category: item.category,
+        url: item.parent_url || item.url,
+        tableCount: item.table_count,
+        lastUpdated: item.last_updated ?? null,
+      });
+      continue;
+    }
+
+    subject.tableCount += item.table_count;
+    if (item.last_updated && item.last_updated > (subject.lastUpdated ?? "")) {
+      subject.lastUpdated = item.last_updated;
+    }
+  }
+
+  return [...subjects.values()];
+};
+
+// Fallback ke data statis jika CSV kosong atau gagal diparsing
+export const buildCatalog = (csv: string): BPSDataItem[] => {
+  try {
+    const parsed = parseCsvToItems(csv);
+    return parsed.length > 0 ? parsed : bpsDataStatic;
+  } catch {
+    return bpsDataStatic;
+  }
+};
+
+// Helper function untuk kategori
+export const getCatalogCategories = (items: BPSDataItem[]): string[] => {
+  return Array.from(new Set(items.map((item) => item.category)));
+};
+
+const titleInfoCache = new Map<string, TableTitleInfo>();
+
+// Hasil parseTableTitle untuk item katalog, disimpan per judul
+export const getTitleInfo = (item: BPSDataItem): TableTitleInfo => {
+  let info = titleInfoCache.get(item.title);
+  if (!info) {
+    info = parseTableTitle(item.title);
+    titleInfoCache.set(item.title, info);
+  }
+  return info;
+};
+
+/**
+ * Aturan yang menentukan urutan akhir hasil pencarian, setelah peringkat kata:
+ * - `ranked`: peringkat kata apa adanya (kueri tanpa tahun atau rincian)
+ * - `constraints`: hasil peringkat disaring dengan tahun/rincian kueri
+ * - `constraints_unranked`: tidak ada kata yang cocok, jadi seluruh katalog
+ *   disaring dengan tahun/rincian kueri tanpa urutan relevansi
+ * - `constraints_ignored`: tidak ada tabel yang memenuhi tahun/rincian, jadi
+ *   hasil peringkat dikembalikan apa adanya
+ */
+export type SearchRule =
+  | "ranked"
+  | "constraints"
+  | "constraints_unranked"
+  | "constraints_ignored";
+
+export interface CatalogSearchDetails {
+  hits: SearchHit[];
+  /** Istilah kanonik dari kamus sinonim yang ditambahkan ke kueri */
+  expansions: string[];
+  /** Tahun dan rincian yang dipisahkan dari kueri, `null` jika tidak ada */
+  constraints: QueryConstraints | null;
+  rule: SearchRule;
+}
+
+// Pencarian katalog beserta penjelasan peringkatnya (lihat shared/search.ts).
+// Tahun ("penduduk 2015") dan rincian ("per kecamatan") di pertanyaan menjadi
+// filter atas cakupan tahun dan dimensi judul tabel; jika tidak ada tabel yang
+// memenuhi, hasil pencocokan kata dikembalikan apa adanya. Singkatan dan
+// sinonim di `synonyms` diperluas menjadi istilah kanoniknya.
+export const searchCatalogDetailed = (
+  items: BPSDataItem[],
+  query: string,
+  synonyms: SynonymEntry[] = [],
+): CatalogSearchDetails => {
+  if (!query || query.trim().length < 2) {
+    return { hits: [], expansions: [], constraints: null, rule: "ranked" };
+  }
+
+  const index = getSearchIndex(items);
+  const { expansions } = matchSynonyms(query, synonyms);
+  const constraints = parseQueryConstraints(query);
+  if (!hasConstraints(constraints)) {
+    return {
+      hits: searchIndex(index, query, expansions),
+      expansions,
+      constraints: null,
+      rule: "ranked",
+    };
+  }
+
+  const ranked = searchIndex(index, constraints.text, expansions);
+  const pool = ranked.length > 0 ? ranked : items.map(unscoredHit);
+  const filtered = pool.filter((hit) =>
+    matchesConstraints(getTitleInfo(hit.item), constraints),
+  );
+  if (filtered.length === 0) {
+    return {
+      hits: ranked,
+      expansions,
+      constraints,
+      rule: "constraints_ignored",
+    };
+  }
+  return {
+    hits: filtered,
+    expansions,
+    constraints,
+    rule: ranked.length > 0 ? "constraints" : "constraints_unranked",
+  };
+};
+
+// Tabel hasil pencarian katalog, urut dari yang paling relevan
+export const searchCatalog = (
+  items: BPSDataItem[],
+  query: string,
+  synonyms: SynonymEntry[] = [],
+): BPSDataItem[] =>
+  searchCatalogDetailed(items, query, synonyms).hits.map((hit) => hit.item);
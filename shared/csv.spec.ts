@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { createCsvReader, CsvRecord, parseCsv, sniffDelimiter } from "./csv";
+
+const HEADER = "row_number,title,last_updated";
+
+describe("parseCsv", () => {
+  it("should keep commas and parentheses inside quoted BPS titles", () => {
+    const { header, records } = parseCsv(
+      [
+        HEADER,
+        '1,"Rasio Jenis Kelamin Penduduk Kota Medan Menurut Kecamatan (Persen), 2001 - 2024",7 Juli 2025',
+        '2,"Jumlah Sekolah, Guru, dan Murid Sekolah Dasar (SD), 2016 - 2024",-',
+      ].join("\n"),
+    );
+
+    expect(header).toEqual(["row_number", "title", "last_updated"]);
+    expect(records.map((r) => r.fields[1])).toEqual([
+      "Rasio Jenis Kelamin Penduduk Kota Medan Menurut Kecamatan (Persen), 2001 - 2024",
+      "Jumlah Sekolah, Guru, dan Murid Sekolah Dasar (SD), 2016 - 2024",
+    ]);
+  });
+
+  it("should unescape doubled quotes", () => {
+    const { records } = parseCsv(
+      `${HEADER}\n3,"Indeks ""Metode Baru"", 2010 - 2024",-`,
+    );
+
+    expect(records[0].fields[1]).toBe('Indeks "Metode Baru", 2010 - 2024');
+  });
+
+  it("should keep newlines inside quoted fields and count lines", () => {
+    const { records } = parseCsv(
+      `${HEADER}\r\n1,"Produksi Tanaman Hias\r\nMenurut Kecamatan, 2018",-\r\n2,Gini Ratio,-\r\n`,
+    );
+
+    expect(records).toEqual([
+      {
+        fields: ["1", "Produksi Tanaman Hias\nMenurut Kecamatan, 2018", "-"],
+        line: 2,
+        error: undefined,
+      },
+      { fields: ["2", "Gini Ratio", "-"], line: 4, error: undefined },
+    ]);
+  });
+
+  it("should strip a BOM and skip blank lines", () => {
+    const { header, records } = parseCsv(`\uFEFF${HEADER}\n\n1,Gini Ratio,-\n\n`);
+
+    expect(header[0]).toBe("row_number");
+    expect(records).toHaveLength(1);
+    expect(records[0].line).toBe(3);
+  });
+
+  it("should read semicolon-delimited Excel exports", () => {
+    const { delimiter, records } = parseCsv(
+      'row_number;title;last_updated\n1;"Inflasi Bulanan Kota Medan, 2014 - 2024";7 Juli 2025',
+    );
+
+    expect(delimiter).toBe(";");
+    expect(records[0].fields).toEqual([
+      "1",
+      "Inflasi Bulanan Kota Medan, 2014 - 2024",
+      "7 Juli 2025",
+    ]);
+  });
+
+  it("should report malformed rows with their line numbers", () => {
+    const { records } = parseCsv(
+      [
+        HEADER,
+        '1,"Luas Wilayah" (km2),-',
+        '2,Angka "Melek" Huruf,-',
+        '3,"Gini Ratio, 2000 - 2024,-',
+        "4,Tidak terbaca,-",
+      ].join("\n"),
+    );
+
+    expect(records.map((r) => [r.line, r.error])).toEqual([
+      [2, "Unexpected character after closing quote on line 2"],
+      [3, "Unexpected quote in unquoted field on line 3"],
+      [4, "Unterminated quoted field starting on line 4"],
+    ]);
+  });
+});
+
+describe("createCsvReader", () => {
+  it("should give the same records however the input is chunked", () => {
+    const text = [
+      "\uFEFFrow_number;title",
+      '1;"Jumlah Penduduk; Kota Medan ""Menurut"" Kecamatan"',
+      '2;"Produksi\r\nPerkebunan"',
+    ].join("\r\n");
+
+    const read = (chunkSize: number) => {
+      const records: CsvRecord[] = [];
+      const reader = createCsvReader({ onRecord: (r) => records.push(r) });
+      for (let i = 0; i < text.length; i += chunkSize) {
+        reader.write(text.slice(i, i + chunkSize));
+      }
+      reader.end();
+      return records;
+    };
+
+    expect(read(1)).toEqual(read(text.length));
+    expect(read(3)).toEqual(read(text.length));
+    expect(read(1)[1].fields[1]).toBe(
+      'Jumlah Penduduk; Kota Medan "Menurut" Kecamatan',
+    );
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it("should ignore delimiters inside quotes", () => {
+    expect(sniffDelimiter('"a;b;c;d",x,y\n')).toBe(",");
+    expect(sniffDelimiter("a\tb\tc")).toBe("\t");
+    expect(sniffDelimiter("judul")).toBe(",");
+  });
+});
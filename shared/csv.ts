@@ -0,0 +1,189 @@
+// Pembaca CSV sesuai RFC 4180 yang bekerja per potongan (chunk), sehingga file
+// besar bisa dibaca dari stream. Mendukung field ber-kutip yang memuat koma,
+// kutip ganda ("") dan baris baru, membuang BOM, serta menebak pemisah kolom
+// (koma, titik koma, tab atau pipa) dari baris pertama.
+
+export interface CsvRecord {
+  fields: string[];
+  /** Nomor baris tempat record dimulai (mulai dari 1) */
+  line: number;
+  /** Alasan record ini cacat, mis. kutip yang tidak ditutup */
+  error?: string;
+}
+
+export interface CsvReaderOptions {
+  /** Pemisah kolom; jika kosong ditebak dari baris pertama */
+  delimiter?: string;
+  onRecord: (record: CsvRecord) => void;
+}
+
+export interface CsvReader {
+  write(chunk: string): void;
+  end(): void;
+  /** Pemisah yang dipakai, tersedia setelah baris pertama terbaca */
+  readonly delimiter: string | null;
+}
+
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"];
+
+// Pemisah yang paling sering muncul di luar kutip pada baris pertama
+export const sniffDelimiter = (sample: string): string => {
+  const counts = new Map(DELIMITER_CANDIDATES.map((d) => [d, 0]));
+  let inQuotes = false;
+  for (const ch of sample) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === "\n" || ch === "\r")) break;
+    else if (!inQuotes && counts.has(ch)) counts.set(ch, counts.get(ch) + 1);
+  }
+
+  let best = ",";
+  for (const [delimiter, count] of counts) {
+    if (count > counts.get(best)) best = delimiter;
+  }
+  return best;
+};
+
+export const createCsvReader = (options: CsvReaderOptions): CsvReader => {
+  let delimiter = options.delimiter ?? null;
+  let pending = "";
+  let started = false;
+
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let afterQuote = false;
+  let skipLineFeed = false;
+  let line = 1;
+  let recordLine = 1;
+  let error: string | undefined;
+
+  const fail = (message: string) => {
+    error = error ?? `${message} on line ${line}`;
+  };
+
+  const endField = () => {
+    fields.push(field);
+    field = "";
+    afterQuote = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    // Baris kosong bukan record
+    if (!(fields.length === 1 && fields[0] === "" && !error)) {
+      options.onRecord({ fields, line: recordLine, error });
+    }
+    fields = [];
+    error = undefined;
+    recordLine = line + 1;
+  };
+
+  const consume = (text: string) => {
+    for (const ch of text) {
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (ch === "\n") continue;
+      }
+      const newline = ch === "\n" || ch === "\r";
+      if (ch === "\r") skipLineFeed = true;
+
+      if (inQuotes) {
+        if (ch === '"') {
+          inQuotes = false;
+          afterQuote = true;
+        } else {
+          field += newline ? "\n" : ch;
+          if (newline) line++;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        if (afterQuote) {
+          // "" di dalam field ber-kutip adalah satu karakter kutip
+          field += '"';
+          inQuotes = true;
+          afterQuote = false;
+        } else if (field.trim() === "") {
+          // Spasi sebelum kutip pembuka (", "abc"") diabaikan
+          field = "";
+          inQuotes = true;
+        } else {
+          fail("Unexpected quote in unquoted field");
+          field += ch;
+        }
+      } else if (ch === delimiter) {
+        endField();
+      } else if (newline) {
+        endRecord();
+        line++;
+      } else {
+        if (afterQuote) {
+          fail("Unexpected character after closing quote");
+          afterQuote = false;
+        }
+        field += ch;
+      }
+    }
+  };
+
+  const start = (text: string) => {
+    started = true;
+    const body = text.replace(/^\uFEFF/, "");
+    delimiter = delimiter ?? sniffDelimiter(body);
+    consume(body);
+  };
+
+  return {
+    write(chunk) {
+      if (started) {
+        consume(chunk);
+        return;
+      }
+      // Tunggu sampai baris pertama lengkap agar pemisahnya bisa ditebak
+      pending += chunk;
+      if (/[\r\n]/.test(pending)) {
+        start(pending);
+        pending = "";
+      }
+    },
+    end() {
+      if (!started) start(pending);
+      if (inQuotes) {
+        inQuotes = false;
+        error =
+          error ?? `Unterminated quoted field starting on line ${recordLine}`;
+      }
+      if (fields.length > 0 || field !== "" || afterQuote || error) {
+        endRecord();
+      }
+    },
+    get delimiter() {
+      return delimiter;
+    },
+  };
+};
+
+export interface CsvParseOutput {
+  header: string[];
+  records: CsvRecord[];
+  delimiter: string;
+}
+
+// Membaca seluruh teks CSV sekaligus; record pertama dianggap header
+export const parseCsv = (text: string, delimiter?: string): CsvParseOutput => {
+  const records: CsvRecord[] = [];
+  const reader = createCsvReader({
+    delimiter,
+    onRecord: (record) => records.push(record),
+  });
+  reader.write(text);
+  reader.end();
+
+  const [header, ...rest] = records;
+  return {
+    header: header ? header.fields.map((name) => name.trim()) : [],
+    records: rest,
+    delimiter: reader.delimiter ?? ",",
+  };
+};
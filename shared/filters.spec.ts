@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyFilters,
+  browseFiltered,
+  hasFilters,
+  matchesFilters,
+} from "./filters";
+import { catalogItem } from "./testing/catalog";
+
+const table = catalogItem;
+
+const POPULATION = table("Jumlah Penduduk Kota Medan (Jiwa), 2010 - 2015", {
+  last_updated: "2024-03-01",
+});
+const GDP = table("PDRB Kota Medan (Milyar Rupiah), 2018 - 2024", {
+  category: "Statistik Ekonomi",
+  subject_id: 530,
+  description: "Neraca Regional",
+  last_updated: "2025-02-10",
+});
+const UNDATED = table("Luas Wilayah Kota Medan (km2)", { subject_id: 531 });
+const ITEMS = [POPULATION, GDP, UNDATED];
+
+describe("hasFilters", () => {
+  it("should ignore unset and empty values", () => {
+    expect(hasFilters(undefined)).toBe(false);
+    expect(hasFilters({ category: "", yearFrom: undefined })).toBe(false);
+    expect(hasFilters({ subjectId: 519 })).toBe(true);
+  });
+});
+
+describe("matchesFilters", () => {
+  it("should filter by category and subject", () => {
+    expect(applyFilters(ITEMS, { category: "Statistik Ekonomi" })).toEqual([
+      GDP,
+    ]);
+    expect(applyFilters(ITEMS, { subjectId: 531 })).toEqual([UNDATED]);
+  });
+
+  it("should keep tables whose year coverage overlaps the range", () => {
+    expect(applyFilters(ITEMS, { yearFrom: 2014, yearTo: 2016 })).toEqual([
+      POPULATION,
+    ]);
+    expect(applyFilters(ITEMS, { yearFrom: 2015 })).toEqual([POPULATION, GDP]);
+    expect(matchesFilters(UNDATED, { yearTo: 2030 })).toBe(false);
+  });
+
+  it("should filter by last-updated date inclusively", () => {
+    expect(
+      applyFilters(ITEMS, {
+        updatedFrom: "2025-01-01",
+        updatedTo: "2025-12-31",
+      }),
+    ).toEqual([GDP]);
+    expect(applyFilters(ITEMS, { updatedTo: "2024-03-01" })).toEqual([
+      POPULATION,
+    ]);
+  });
+});
+
+describe("browseFiltered", () => {
+  it("should list matching tables newest first only when filtering", () => {
+    expect(browseFiltered(ITEMS, { yearFrom: 2010 })).toEqual([
+      GDP,
+      POPULATION,
+    ]);
+    expect(browseFiltered(ITEMS, {})).toEqual([]);
+  });
+});
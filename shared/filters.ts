@@ -0,0 +1,67 @@
+// Filter katalog yang dipilih pengguna di bilah filter chat (kategori, subjek,
+// cakupan tahun data dan tanggal pembaruan). Filter diterapkan pada hasil
+// pencarian yang sudah diperingkat, jadi indeks kata dan vektor embedding
+// tetap dibangun sekali untuk seluruh katalog.
+import { BPSDataItem, getTitleInfo, sortByRecency } from "./catalog";
+
+export interface CatalogFilters {
+  category?: string;
+  subjectId?: number;
+  /** Cakupan tahun data; tabel cocok jika rentang tahunnya beririsan */
+  yearFrom?: number;
+  yearTo?: number;
+  /** Rentang tanggal pembaruan tabel, ISO `YYYY-MM-DD`, inklusif */
+  updatedFrom?: string;
+  updatedTo?: string;
+}
+
+export type CatalogFilterKey = keyof CatalogFilters;
+
+export const hasFilters = (filters: CatalogFilters | undefined): boolean =>
+  !!filters &&
+  Object.values(filters).some((value) => value !== undefined && value !== "");
+
+// Apakah tabel memenuhi semua filter; tabel tanpa tahun atau tanggal
+// pembaruan tidak lolos filter tahun atau tanggal
+export const matchesFilters = (
+  item: BPSDataItem,
+  filters: CatalogFilters,
+): boolean => {
+  if (filters.category && item.category !== filters.category) return false;
+  if (filters.subjectId !== undefined && item.subject_id !== filters.subjectId)
+    return false;
+
+  if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+    const { startYear, endYear } = getTitleInfo(item);
+    if (startYear === null) return false;
+    if (filters.yearFrom !== undefined && endYear < filters.yearFrom)
+      return false;
+    if (filters.yearTo !== undefined && startYear > filters.yearTo)
+      return false;
+  }
+
+  if (filters.updatedFrom || filters.updatedTo) {
+    const updated = item.last_updated;
+    if (!updated) return false;
+    if (filters.updatedFrom && updated < filters.updatedFrom) return false;
+    if (filters.updatedTo && updated > filters.updatedTo) return false;
+  }
+
+  return true;
+};
+
+export const applyFilters = (
+  items: BPSDataItem[],
+  filters: CatalogFilters | undefined,
+): BPSDataItem[] =>
+  hasFilters(filters)
+    ? items.filter((item) => matchesFilters(item, filters))
+    : items;
+
+// Tabel yang lolos filter, terbaru lebih dulu; cadangan saat kata di
+// pertanyaan tidak cocok dengan tabel mana pun tetapi filter dipilih
+export const browseFiltered = (
+  items: BPSDataItem[],
+  filters: CatalogFilters | undefined,
+): BPSDataItem[] =>
+  hasFilters(filters) ? sortByRecency(applyFilters(items, filters)) : [];
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  dimensionKey,
+  normalizeDimensionValue,
+  parseNumber,
+  parseYear,
+  queryObservations,
+  tableToObservations,
+  TOTAL_VALUE,
+} from "./observations";
+
+describe("parseNumber", () => {
+  it("should read Indonesian and English number formats", () => {
+    expect(parseNumber("2.494.512")).toBe(2494512);
+    expect(parseNumber("102,35")).toBe(102.35);
+    expect(parseNumber("1.234,5")).toBe(1234.5);
+    expect(parseNumber("1,234.5")).toBe(1234.5);
+    expect(parseNumber("1,234,567")).toBe(1234567);
+    expect(parseNumber("8.01")).toBe(8.01);
+    expect(parseNumber("-0,5")).toBe(-0.5);
+    expect(parseNumber(42)).toBe(42);
+  });
+
+  it("should treat BPS placeholders as missing", () => {
+    expect(parseNumber("-")).toBeNull();
+    expect(parseNumber("…")).toBeNull();
+    expect(parseNumber("NA")).toBeNull();
+    expect(parseNumber("")).toBeNull();
+  });
+});
+
+describe("parseYear", () => {
+  it("should accept provisional markers", () => {
+    expect(parseYear("2023*")).toBe(2023);
+    expect(parseYear(2024)).toBe(2024);
+    expect(parseYear("Kecamatan")).toBeNull();
+  });
+});
+
+describe("dimension normalisation", () => {
+  it("should canonicalise keys, totals and sexes", () => {
+    expect(dimensionKey("Jenis Kelamin")).toBe("jenis_kelamin");
+    expect(dimensionKey("Umur")).toBe("kelompok_umur");
+    expect(normalizeDimensionValue("kecamatan", "Kota Medan")).toBe(
+      TOTAL_VALUE,
+    );
+    expect(normalizeDimensionValue("jenis_kelamin", "L")).toBe("Laki-laki");
+    expect(normalizeDimensionValue("kecamatan", " Medan  Tuntungan ")).toBe(
+      "Medan Tuntungan",
+    );
+  });
+});
+
+describe("tableToObservations", () => {
+  it("should read a wide table with one column per year", () => {
+    const { observations, issues } = tableToObservations(
+      "519-3",
+      [
+        ["Kecamatan", "2022", "2023*"],
+        ["Medan Tuntungan", "95.123", "96.001"],
+        ["Medan Johor", "-", "150.200"],
+        ["Kota Medan", "2.460.858", "2.486.283"],
+      ],
+      { unit: "Jiwa" },
+    );
+
+    expect(issues).toEqual([]);
+    expect(observations).toHaveLength(5);
+    expect(observations[0]).toEqual({
+      tableId: "519-3",
+      dimensions: { kecamatan: "Medan Tuntungan" },
+      year: 2022,
+      unit: "Jiwa",
+      value: 95123,
+    });
+    expect(observations[4].dimensions.kecamatan).toBe(TOTAL_VALUE);
+  });
+
+  it("should name non-year value columns after the column dimension", () => {
+    const { observations } = tableToObservations(
+      "519-1",
+      [
+        ["Kecamatan", "Tahun", "Laki-laki", "Perempuan"],
+        ["Medan Tuntungan", "2024", "48.000", "49.500"],
+      ],
+      { columnDimension: "Jenis Kelamin" },
+    );
+
+    expect(observations.map((o) => [o.dimensions, o.year, o.value])).toEqual([
+      [
+        { kecamatan: "Medan Tuntungan", jenis_kelamin: "Laki-laki" },
+        2024,
+        48000,
+      ],
+      [
+        { kecamatan: "Medan Tuntungan", jenis_kelamin: "Perempuan" },
+        2024,
+        49500,
+      ],
+    ]);
+  });
+
+  it("should read a long table with a value and unit column", () => {
+    const { observations, issues } = tableToObservations("520-1", [
+      ["Tahun", "Jenis Kelamin", "Satuan", "Nilai"],
+      ["2024", "P", "Persen", "7,5"],
+      ["2024", "L", "Persen", "abc"],
+    ]);
+
+    expect(observations).toEqual([
+      {
+        tableId: "520-1",
+        dimensions: { jenis_kelamin: "Perempuan" },
+        year: 2024,
+        unit: "Persen",
+        value: 7.5,
+      },
+    ]);
+    expect(issues).toEqual(['Row 3: "abc" is not a number']);
+  });
+});
+
+describe("queryObservations", () => {
+  const { observations } = tableToObservations(
+    "519-3",
+    [
+      ["Kecamatan", "2022", "2023"],
+      ["Medan Tuntungan", "95.123", "96.001"],
+      ["Medan Johor", "140.000", "150.200"],
+    ],
+    { unit: "Jiwa" },
+  );
+
+  it("should filter by dimension values case-insensitively and by year", () => {
+    expect(
+      queryObservations(observations, {
+        table: "519-3",
+        dimensions: { Kecamatan: "medan tuntungan" },
+        yearFrom: 2023,
+      }).map((o) => o.value),
+    ).toEqual([96001]);
+  });
+
+  it("should match nothing for unknown dimensions or units", () => {
+    expect(
+      queryObservations(observations, { dimensions: { desa: "x" } }),
+    ).toEqual([]);
+    expect(queryObservations(observations, { unit: "Persen" })).toEqual([]);
+  });
+});
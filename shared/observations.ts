@@ -0,0 +1,301 @@
+// Isi angka tabel BPS (bukan hanya judulnya) dalam bentuk observasi yang
+// ternormalisasi: satu nilai per tabel, kombinasi nilai dimensi (kecamatan,
+// jenis kelamin, kelompok umur, ...), tahun dan satuan. Ekspor CSV/XLSX/JSON
+// dibaca menjadi baris (header + data) lalu diubah di sini, baik format
+// panjang (kolom "nilai") maupun format lebar (satu kolom per tahun atau per
+// nilai dimensi, seperti tampilan tabel di portal BPS).
+import { normalizeText } from "./search";
+
+export interface Observation {
+  /** Id tabel katalog, lihat `getTableId` */
+  tableId: string;
+  /** Nilai dimensi per kunci ternormalisasi, mis. { kecamatan: "Medan Tuntungan" } */
+  dimensions: Record<string, string>;
+  year: number | null;
+  unit: string | null;
+  value: number;
+}
+
+export interface ObservationQuery {
+  table?: string;
+  /** Nilai dimensi yang diminta; dicocokkan tanpa membedakan huruf besar */
+  dimensions?: Record<string, string>;
+  yearFrom?: number;
+  yearTo?: number;
+  unit?: string;
+}
+
+/** Kunci dimensi untuk tahun, yang disimpan di `Observation.year` */
+export const YEAR_KEY = "tahun";
+
+/** Label baku baris/kolom total ("Jumlah", "Total", "Kota Medan", ...) */
+export const TOTAL_VALUE = "Jumlah";
+
+const VALUE_HEADERS = new Set(["nilai", "value"]);
+const UNIT_HEADERS = new Set(["satuan", "unit"]);
+
+// Sebutan lain untuk dimensi yang sama
+const KEY_ALIASES: Record<string, string> = {
+  year: YEAR_KEY,
+  jk: "jenis_kelamin",
+  sex: "jenis_kelamin",
+  umur: "kelompok_umur",
+  golongan_umur: "kelompok_umur",
+  kelompok_usia: "kelompok_umur",
+  kecamatan_district: "kecamatan",
+  district: "kecamatan",
+};
+
+const TOTAL_LABELS = new Set([
+  "jumlah",
+  "total",
+  "jumlah total",
+  "kota medan",
+  "medan",
+  "jumlah kota medan",
+]);
+
+const SEX_VALUES: Record<string, string> = {
+  l: "Laki-laki",
+  lk: "Laki-laki",
+  "laki laki": "Laki-laki",
+  lelaki: "Laki-laki",
+  p: "Perempuan",
+  pr: "Perempuan",
+  perempuan: "Perempuan",
+  wanita: "Perempuan",
+};
+
+// "Jenis Kelamin" -> "jenis_kelamin"
+export const dimensionKey = (name: string): string => {
+  const key = normalizeText(name).replace(/ /g, "_");
+  return KEY_ALIASES[key] ?? key;
+};
+
+// Nilai dimensi dengan spasi dirapikan, label total dan jenis kelamin dibakukan
+export const normalizeDimensionValue = (key: string, value: string): string => {
+  const text = value.replace(/\s+/g, " ").trim();
+  const normalized = normalizeText(text);
+  if (TOTAL_LABELS.has(normalized)) return TOTAL_VALUE;
+  if (key === "jenis_kelamin") return SEX_VALUES[normalized] ?? text;
+  return text;
+};
+
+// Angka dalam format Indonesia ("2.494.512", "102,35") maupun Inggris
+// ("1,234.5"); tanda kosong BPS ("-", "…", "NA") menjadi null
+export const parseNumber = (text: string | number): number | null => {
+  if (typeof text === "number") return Number.isFinite(text) ? text : null;
+
+  let s = text.replace(/[\s *]/g, "");
+  if (!/\d/.test(s) || !/^[-+]?[\d.,]+$/.test(s)) return null;
+
+  const lastDot = s.lastIndexOf(".");
+  const lastComma = s.lastIndexOf(",");
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Pemisah yang muncul terakhir adalah pemisah desimal
+    const decimal = lastDot > lastComma ? "." : ",";
+    const thousands = decimal === "." ? "," : ".";
+    s = s.split(thousands).join("").replace(decimal, ".");
+  } else if (lastDot >= 0) {
+    if (/^[-+]?\d{1,3}(\.\d{3})+$/.test(s)) s = s.replace(/\./g, "");
+  } else if (lastComma >= 0) {
+    s = /^[-+]?\d{1,3}(,\d{3}){2,}$/.test(s)
+      ? s.replace(/,/g, "")
+      : s.replace(",", ".");
+  }
+
+  const value = Number(s);
+  return Number.isFinite(value) ? value : null;
+};
+
+// Tahun dari sel seperti "2023", "2023*" (angka sementara) atau 2023
+export const parseYear = (text: string | number): number | null => {
+  const match = /^\s*(\d{4})\**\s*$/.exec(String(text));
+  if (!match) return null;
+  const year = Number(match[1]);
+  return year >= 1900 && year <= 2100 ? year : null;
+};
+
+// Sel tabel: teks dari CSV, atau angka apa adanya dari JSON dan XLSX
+export type TableCell = string | number;
+
+const cellText = (cell: TableCell | undefined): string =>
+  String(cell ?? "").trim();
+
+export interface TableRowsOptions {
+  /** Satuan bawaan, biasanya dari judul tabel */
+  unit?: string | null;
+  /**
+   * Nama dimensi untuk judul kolom format lebar yang bukan tahun, mis.
+   * "Jenis Kelamin" untuk kolom "Laki-laki" dan "Perempuan"
+   */
+  columnDimension?: string;
+}
+
+export interface TableRowsResult {
+  observations: Observation[];
+  /** Masalah per baris, mis. nilai yang bukan angka */
+  issues: string[];
+}
+
+const isNumericColumn = (rows: TableCell[][], column: number): boolean => {
+  const cells = rows
+    .map((row) => row[column])
+    .filter(
+      (cell) => cellText(cell) !== "" && !/^[-–…]$|^na$/i.test(cellText(cell)),
+    );
+  return (
+    cells.length > 0 &&
+    cells.filter((cell) => parseNumber(cell) !== null).length * 2 >=
+      cells.length
+  );
+};
+
+// Mengubah baris tabel (baris pertama = header) menjadi observasi
+export const tableToObservations = (
+  tableId: string,
+  rows: TableCell[][],
+  options: TableRowsOptions = {},
+): TableRowsResult => {
+  const [headerCells, ...body] = rows.filter((row) =>
+    row.some((cell) => cellText(cell) !== ""),
+  );
+  if (!headerCells) return { observations: [], issues: ["No header row"] };
+
+  const header = headerCells.map((name) => String(name ?? ""));
+  const keys = header.map((name) => dimensionKey(name));
+  // Angka dibiarkan sebagai angka agar 102.345 tidak dibaca sebagai ribuan
+  const data = body.map((row) => header.map((_, i) => row[i] ?? ""));
+  const observations: Observation[] = [];
+  const issues: string[] = [];
+
+  const valueColumn = keys.findIndex((key) => VALUE_HEADERS.has(key));
+  const unitColumn = keys.findIndex((key) => UNIT_HEADERS.has(key));
+  const yearColumn = keys.indexOf(YEAR_KEY);
+
+  // Format panjang: satu kolom nilai, kolom lain adalah dimensi
+  if (valueColumn >= 0) {
+    data.forEach((row, r) => {
+      const value = parseNumber(row[valueColumn]);
+      if (value === null) {
+        if (cellText(row[valueColumn])) {
+          issues.push(`Row ${r + 2}: "${row[valueColumn]}" is not a number`);
+        }
+        return;
+      }
+      const dimensions: Record<string, string> = {};
+      keys.forEach((key, i) => {
+        if (i === valueColumn || i === unitColumn || i === yearColumn) return;
+        if (cellText(row[i]))
+          dimensions[key] = normalizeDimensionValue(key, String(row[i]));
+      });
+      const unit = unitColumn >= 0 ? cellText(row[unitColumn]) : "";
+      observations.push({
+        tableId,
+        dimensions,
+        year: yearColumn >= 0 ? parseYear(row[yearColumn]) : null,
+        unit: unit || options.unit || null,
+        value,
+      });
+    });
+    return { observations, issues };
+  }
+
+  // Format lebar: kolom dimensi di kiri, kolom nilai (tahun atau nilai
+  // dimensi lain) di kanan
+  const valueColumns = header
+    .map((_, i) => i)
+    .filter(
+      (i) =>
+        i !== yearColumn &&
+        (parseYear(header[i]) !== null || isNumericColumn(data, i)),
+    );
+  const rowDimensions = keys
+    .map((key, i) => ({ key, i }))
+    .filter(({ i }) => !valueColumns.includes(i));
+  if (valueColumns.length === 0) {
+    return { observations, issues: ["No numeric columns"] };
+  }
+  const columnKey = dimensionKey(options.columnDimension ?? "kategori");
+
+  data.forEach((row, r) => {
+    const dimensions: Record<string, string> = {};
+    let rowYear: number | null = null;
+    rowDimensions.forEach(({ key, i }) => {
+      if (key === YEAR_KEY) rowYear = parseYear(row[i]);
+      else if (cellText(row[i])) {
+        dimensions[key] = normalizeDimensionValue(key, String(row[i]));
+      }
+    });
+
+    valueColumns.forEach((i) => {
+      const cell = row[i];
+      const value = parseNumber(cell);
+      if (value === null) {
+        if (cellText(cell) && !/^[-–…]$|^na$/i.test(cellText(cell))) {
+          issues.push(`Row ${r + 2}: "${cell}" is not a number`);
+        }
+        return;
+      }
+      const columnYear = parseYear(header[i]);
+      observations.push({
+        tableId,
+        dimensions:
+          columnYear !== null
+            ? dimensions
+            : {
+                ...dimensions,
+                [columnKey]: normalizeDimensionValue(columnKey, header[i]),
+              },
+        year: columnYear ?? rowYear,
+        unit: options.unit ?? null,
+        value,
+      });
+    });
+  });
+
+  return { observations, issues };
+};
+
+// Kunci unik observasi: tabel, dimensi (urut abjad), tahun dan satuan
+export const observationKey = (observation: Observation): string =>
+  JSON.stringify([
+    observation.tableId,
+    Object.entries(observation.dimensions).sort(([a], [b]) =>
+      a.localeCompare(b),
+    ),
+    observation.year,
+    observation.unit,
+  ]);
+
+const sameText = (a: string, b: string) =>
+  normalizeText(a) === normalizeText(b);
+
+export const matchesObservation = (
+  observation: Observation,
+  query: ObservationQuery,
+): boolean => {
+  if (query.table && observation.tableId !== query.table) return false;
+  if (query.unit && !sameText(observation.unit ?? "", query.unit)) return false;
+  if (query.yearFrom !== undefined || query.yearTo !== undefined) {
+    if (observation.year === null) return false;
+    if (query.yearFrom !== undefined && observation.year < query.yearFrom)
+      return false;
+    if (query.yearTo !== undefined && observation.year > query.yearTo)
+      return false;
+  }
+  return Object.entries(query.dimensions ?? {}).every(([name, value]) => {
+    const key = dimensionKey(name);
+    const actual = observation.dimensions[key];
+    return (
+      actual !== undefined &&
+      sameText(actual, normalizeDimensionValue(key, value))
+    );
+  });
+};
+
+export const queryObservations = (
+  observations: Observation[],
+  query: ObservationQuery,
+): Observation[] =>
+  observations.filter((observation) => matchesObservation(observation, query));
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { parseCsvToItems } from "./catalog";
+import {
+  buildSearchIndex,
+  completeWord,
+  editDistance,
+  FUZZY_WEIGHT,
+  getSearchIndex,
+  searchIndex,
+  tokenize,
+} from "./search";
+import { catalogItem } from "./testing/catalog";
+
+const table = (
+  title: string,
+  description = "Kependudukan dan Migrasi",
+  category = "Statistik Demografi dan Sosial",
+) => catalogItem(title, { description, category });
+
+const ITEMS = [
+  table(
+    "Rasio Jenis Kelamin Penduduk Kota Medan Menurut Kecamatan (Persen), 2001 - 2024",
+  ),
+  table(
+    "Jumlah Penduduk Kota Medan Menurut Kelompok Umur dan Jenis Kelamin (Jiwa), 2010 - 2024",
+  ),
+  table(
+    "Angka Harapan Hidup (AHH) Menurut Jenis Kelamin Kota Medan, 2010 - 2022",
+    "Kesehatan",
+  ),
+  table("Tingkat Pengangguran Terbuka (TPT), 2014 - 2024", "Tenaga Kerja"),
+  table("Gini Ratio , 2000 - 2024", "Kemiskinan dan Ketimpangan"),
+];
+
+describe("tokenize", () => {
+  it("should drop stopwords, numbers and single letters", () => {
+    expect(
+      tokenize("Jumlah Penduduk Kota Medan Menurut Kecamatan (Jiwa), 2010"),
+    ).toEqual(["penduduk", "jiwa"]);
+  });
+});
+
+describe("searchIndex", () => {
+  const index = buildSearchIndex(ITEMS);
+
+  it("should only return tables sharing a query term", () => {
+    const hits = searchIndex(index, "pengangguran");
+
+    expect(hits.map((hit) => hit.item.title)).toEqual([
+      "Tingkat Pengangguran Terbuka (TPT), 2014 - 2024",
+    ]);
+    expect(hits[0].matchedTerms).toEqual(["pengangguran"]);
+  });
+
+  it("should rank the whole phrase in the title above scattered terms", () => {
+    const hits = searchIndex(index, "rasio jenis kelamin");
+
+    expect(hits[0].titleMatch).toBe("phrase");
+    expect(hits[0].contiguousRun).toBe(3);
+    expect(hits[0].item).toBe(ITEMS[0]);
+    expect(hits.slice(1).map((hit) => hit.titleMatch)).toEqual([
+      "term",
+      "term",
+    ]);
+  });
+
+  it("should put title matches before description-only matches", () => {
+    const hits = searchIndex(index, "kesehatan penduduk");
+
+    // "kesehatan" only appears in a description, "penduduk" in titles
+    expect(hits.map((hit) => hit.titleMatch)).toEqual(["term", "term", "none"]);
+    expect(hits[2].fieldScores.title).toBe(0);
+    expect(hits[2].fieldScores.description).toBeGreaterThan(0);
+  });
+
+  it("should rank an exact title first", () => {
+    const hits = searchIndex(index, "Gini Ratio , 2000 - 2024");
+
+    expect(hits[0].titleMatch).toBe("exact");
+  });
+
+  it("should split the score across fields", () => {
+    const [hit] = searchIndex(index, "pengangguran");
+    const { title, category, description } = hit.fieldScores;
+
+    expect(title + category + description).toBeCloseTo(hit.score);
+  });
+});
+
+describe("searchIndex stemming and typos", () => {
+  const items = parseCsvToItems(
+    readFileSync(
+      path.resolve(__dirname, "../data/catalog/data fix.csv"),
+      "utf8",
+    ),
+  );
+  const index = getSearchIndex(items);
+
+  it("should match derived forms through their stem", () => {
+    const hits = searchIndex(index, "kependudukan");
+
+    expect(hits[0].titleMatch).not.toBe("none");
+    expect(hits[0].item.title).toMatch(/Penduduk/);
+    expect(hits[0].matchedTerms).toEqual(["kependudukan"]);
+  });
+
+  it("should find unemployment tables from a verb form", () => {
+    const titles = searchIndex(index, "menganggur")
+      .slice(0, 5)
+      .map((hit) => hit.item.title);
+
+    expect(titles.length).toBeGreaterThan(0);
+    titles.forEach((title) => expect(title).toMatch(/Pengangguran/));
+  });
+
+  it("should tolerate a typo at a reduced score", () => {
+    const typo = searchIndex(index, "pendudk");
+    const exact = searchIndex(index, "penduduk");
+
+    expect(typo[0].item).toBe(exact[0].item);
+    expect(typo[0].matchedTerms).toEqual(["pendudk"]);
+    expect(typo[0].score).toBeCloseTo(exact[0].score * FUZZY_WEIGHT);
+  });
+
+  it("should not guess for short unknown words", () => {
+    expect(searchIndex(index, "ipmx")).toEqual([]);
+    // "kabar" is one letter away from "kasar" (Angka Partisipasi Kasar)
+    expect(searchIndex(index, "bagaimana kabar")).toEqual([]);
+  });
+});
+
+describe("completeWord", () => {
+  const index = buildSearchIndex(ITEMS);
+
+  it("should complete a prefix to the most frequent catalogue word", () => {
+    expect(completeWord(index, "pendu")).toBe("penduduk");
+    expect(completeWord(index, "Penga")).toBe("pengangguran");
+  });
+
+  it("should leave whole, short and unknown words alone", () => {
+    expect(completeWord(index, "medan")).toBeNull();
+    expect(completeWord(index, "pe")).toBeNull();
+    expect(completeWord(index, "xyz")).toBeNull();
+  });
+});
+
+describe("editDistance", () => {
+  it("should count edits including adjacent swaps", () => {
+    expect(editDistance("pendudk", "penduduk")).toBe(1);
+    expect(editDistance("pendduuk", "penduduk")).toBe(1);
+    expect(editDistance("kemiskinan", "kemiskinan")).toBe(0);
+  });
+
+  it("should stop early past the limit", () => {
+    expect(editDistance("inflasi", "penduduk", 2)).toBe(3);
+  });
+});
+
+describe("getSearchIndex", () => {
+  it("should build the index once per catalogue array", () => {
+    expect(getSearchIndex(ITEMS)).toBe(getSearchIndex(ITEMS));
+    expect(getSearchIndex([...ITEMS])).not.toBe(getSearchIndex(ITEMS));
+  });
+});
@@ -0,0 +1,465 @@
+// Indeks terbalik (inverted index) atas judul, kategori dan deskripsi tabel
+// katalog dengan skor BM25F. Indeks dibangun sekali per array katalog, sehingga
+// biaya pencarian sebanding dengan jumlah posting dari kata kueri, bukan
+// dengan ukuran katalog.
+//
+// Urutan hasil ditentukan oleh fitur berikut, dari yang paling menentukan:
+//   1. Tingkat kecocokan judul (`TitleMatch`): judul yang sama persis dengan
+//      kueri, lalu judul yang memuat seluruh kata kueri berurutan, lalu judul
+//      yang memuat setidaknya satu kata kueri, terakhir tabel yang hanya cocok
+//      lewat kategori atau deskripsi.
+//   2. Skor BM25F ditambah bonus untuk deretan kata kueri yang muncul
+//      berurutan di judul.
+//
+// Kata di indeks dan kueri dicocokkan lewat stem-nya (lihat shared/stemmer.ts),
+// sehingga "kependudukan" menemukan "penduduk". Kata kueri yang stem-nya tidak
+// ada di indeks dicocokkan ke kata katalog terdekat menurut jarak edit (salah
+// ketik seperti "pendudk"), dengan skor yang dikurangi. Perluasan kueri dari
+// kamus sinonim (shared/synonyms.ts) ikut dinilai, tetapi tidak dihitung untuk
+// kecocokan frasa atau deretan kata.
+import type { BPSDataItem } from "./catalog";
+import { stem } from "./stemmer";
+
+export type SearchField = "title" | "category" | "description";
+
+/** Tingkat kecocokan judul, fitur peringkat pertama */
+export type TitleMatch = "exact" | "phrase" | "term" | "none";
+
+export interface SearchHit {
+  item: BPSDataItem;
+  /** Skor akhir: BM25F + bonus deretan kata */
+  score: number;
+  /** Kontribusi BM25 per field (sebelum digabung oleh saturasi BM25F) */
+  fieldScores: Record<SearchField, number>;
+  /** Kata kueri (seperti diketik) yang cocok dengan tabel ini */
+  matchedTerms: string[];
+  /** Bagian `matchedTerms` yang hanya cocok lewat toleransi salah ketik */
+  fuzzyTerms: string[];
+  /** Bagian `matchedTerms` yang berasal dari perluasan sinonim */
+  synonymTerms: string[];
+  /** Panjang deretan kata kueri terpanjang yang berurutan di judul */
+  contiguousRun: number;
+  /** Bonus deretan kata yang sudah termasuk di `score` */
+  contiguousBonus: number;
+  titleMatch: TitleMatch;
+}
+
+interface IndexedDoc {
+  item: BPSDataItem;
+  normalizedTitle: string;
+  titleTokens: string[];
+  lengths: Record<SearchField, number>;
+}
+
+interface Posting {
+  doc: number;
+  tf: Record<SearchField, number>;
+}
+
+export interface SearchIndex {
+  docs: IndexedDoc[];
+  /** Posting per stem */
+  postings: Map<string, Posting[]>;
+  /** Kata katalog apa adanya -> stem-nya, untuk pencocokan salah ketik */
+  vocabulary: Map<string, string>;
+  avgLengths: Record<SearchField, number>;
+}
+
+const FIELDS: SearchField[] = ["title", "category", "description"];
+
+/** Bobot field BM25F; judul paling menentukan */
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  category: 1,
+  description: 1.5,
+};
+
+const K1 = 1.2;
+const B: Record<SearchField, number> = {
+  title: 0.75,
+  category: 0.3,
+  description: 0.5,
+};
+
+/** Tambahan skor untuk setiap kata berurutan setelah kata pertama */
+export const CONTIGUOUS_BONUS = 1;
+
+/** Pengali skor untuk kata kueri yang hanya cocok lewat jarak edit */
+export const FUZZY_WEIGHT = 0.7;
+
+const TITLE_MATCH_RANK: Record<TitleMatch, number> = {
+  exact: 3,
+  phrase: 2,
+  term: 1,
+  none: 0,
+};
+
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, " ") // Replace punctuation with spaces
+    .replace(/\s+/g, " ") // Replace multiple spaces with single space
+    .trim();
+};
+
+// Stopwords umum bahasa Indonesia dan istilah generik yang tidak informatif untuk pencarian BPS
+export const STOPWORDS = new Set<string>([
+  "kota",
+  "medan",
+  "jumlah",
+  "tahun",
+  "menurut",
+  "dan",
+  "di",
+  "yang",
+  "ke",
+  "atas",
+  "dari",
+  "pada",
+  "dengan",
+  "per",
+  "persen",
+  "triwulanan",
+  "harga",
+  "berlaku",
+  "konstan",
+  "lahir",
+  "baru",
+  "lama",
+  "rata",
+  "menjadi",
+  "sektor",
+  "kecamatan",
+  "kabupaten",
+  "provinsi",
+  "sumatera",
+  "utara",
+  "data",
+  "dataset",
+  "tabel",
+]);
+
+// Kata bermakna dari sebuah teks: tanpa stopword, angka dan kata satu huruf
+export const tokenize = (text: string): string[] =>
+  normalizeText(text)
+    .split(" ")
+    .filter(
+      (word) => word.length > 1 && !STOPWORDS.has(word) && /[a-z]/.test(word),
+    );
+
+// Stem dari kata bermakna sebuah teks; dipakai untuk indeks dan kueri
+export const analyze = (text: string): string[] => tokenize(text).map(stem);
+
+// Jarak edit Damerau-Levenshtein terbatas (substitusi, sisip, hapus dan tukar
+// dua huruf bersebelahan); berhenti lebih awal dan mengembalikan max + 1 jika
+// jaraknya pasti melebihi `max`
+export const editDistance = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], prevPrev[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Salah ketik yang ditoleransi: kata sampai lima huruf harus tepat (satu
+// huruf saja sudah mengubah "kabar" menjadi "kasar"), kata sedang satu huruf,
+// kata panjang dua huruf
+const maxEdits = (word: string): number =>
+  word.length >= 8 ? 2 : word.length >= 6 ? 1 : 0;
+
+interface ResolvedTerm {
+  /** Kata kueri seperti diketik */
+  word: string;
+  stem: string;
+  weight: number;
+}
+
+// Stem indeks untuk sebuah kata kueri: stem-nya sendiri jika ada di indeks,
+// atau stem kata katalog terdekat (jarak edit terkecil, lalu paling sering)
+const resolveTerm = (index: SearchIndex, word: string): ResolvedTerm | null => {
+  const own = stem(word);
+  if (index.postings.has(own)) return { word, stem: own, weight: 1 };
+
+  const max = maxEdits(word);
+  if (max === 0) return null;
+
+  let best: { stem: string; distance: number; df: number } | null = null;
+  for (const [candidate, candidateStem] of index.vocabulary) {
+    const distance = editDistance(word, candidate, max);
+    if (distance > max) continue;
+    const df = index.postings.get(candidateStem).length;
+    if (
+      !best ||
+      distance < best.distance ||
+      (distance === best.distance && df > best.df)
+    ) {
+      best = { stem: candidateStem, distance, df };
+    }
+  }
+  return best ? { word, stem: best.stem, weight: FUZZY_WEIGHT } : null;
+};
+
+export const buildSearchIndex = (items: BPSDataItem[]): SearchIndex => {
+  const docs: IndexedDoc[] = [];
+  const postings = new Map<string, Posting[]>();
+  const vocabulary = new Map<string, string>();
+  const totals: Record<SearchField, number> = {
+    title: 0,
+    category: 0,
+    description: 0,
+  };
+
+  const analyzeField = (text: string): string[] =>
+    tokenize(text).map((word) => {
+      let term = vocabulary.get(word);
+      if (term === undefined) {
+        term = stem(word);
+        vocabulary.set(word, term);
+      }
+      return term;
+    });
+
+  items.forEach((item, doc) => {
+    const tokens: Record<SearchField, string[]> = {
+      title: analyzeField(item.title),
+      category: analyzeField(item.category),
+      description: analyzeField(item.description),
+    };
+    const byTerm = new Map<string, Posting>();
+    for (const field of FIELDS) {
+      totals[field] += tokens[field].length;
+      for (const term of tokens[field]) {
+        let posting = byTerm.get(term);
+        if (!posting) {
+          posting = { doc, tf: { title: 0, category: 0, description: 0 } };
+          byTerm.set(term, posting);
+        }
+        posting.tf[field]++;
+      }
+    }
+    for (const [term, posting] of byTerm) {
+      if (!postings.has(term)) postings.set(term, []);
+      postings.get(term).push(posting);
+    }
+
+    docs.push({
+      item,
+      normalizedTitle: normalizeText(item.title),
+      titleTokens: tokens.title,
+      lengths: {
+        title: tokens.title.length,
+        category: tokens.category.length,
+        description: tokens.description.length,
+      },
+    });
+  });
+
+  const count = Math.max(docs.length, 1);
+  return {
+    docs,
+    postings,
+    vocabulary,
+    avgLengths: {
+      title: totals.title / count || 1,
+      category: totals.category / count || 1,
+      description: totals.description / count || 1,
+    },
+  };
+};
+
+const indexCache = new WeakMap<BPSDataItem[], SearchIndex>();
+
+// Indeks untuk sebuah array katalog, dibangun sekali lalu disimpan
+export const getSearchIndex = (items: BPSDataItem[]): SearchIndex => {
+  let index = indexCache.get(items);
+  if (!index) {
+    index = buildSearchIndex(items);
+    indexCache.set(items, index);
+  }
+  return index;
+};
+
+// Melengkapi kata yang sedang diketik ("pendu" -> "penduduk") dengan kata
+// katalog berawalan sama yang muncul di tabel terbanyak; `null` jika kata
+// sudah utuh, terlalu pendek, atau tidak ada yang cocok
+export const completeWord = (
+  index: SearchIndex,
+  prefix: string,
+): string | null => {
+  const word = normalizeText(prefix);
+  if (word.length < 3 || word.includes(" ") || index.vocabulary.has(word)) {
+    return null;
+  }
+
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [surface, stem] of index.vocabulary) {
+    if (!surface.startsWith(word)) continue;
+    const count = index.postings.get(stem)?.length ?? 0;
+    if (count > bestCount || (count === bestCount && best && surface < best)) {
+      best = surface;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// Hit tanpa skor untuk tabel yang lolos filter tanpa cocok dengan kata kueri
+export const unscoredHit = (item: BPSDataItem): SearchHit => ({
+  item,
+  score: 0,
+  fieldScores: { title: 0, category: 0, description: 0 },
+  matchedTerms: [],
+  fuzzyTerms: [],
+  synonymTerms: [],
+  contiguousRun: 0,
+  contiguousBonus: 0,
+  titleMatch: "none",
+});
+
+// Deretan terpanjang kata kueri (sesuai urutan kueri) yang muncul berurutan
+const longestRun = (queryTerms: string[], titleTokens: string[]): number => {
+  let best = 0;
+  for (let i = 0; i < titleTokens.length; i++) {
+    for (let j = 0; j < queryTerms.length; j++) {
+      let run = 0;
+      while (
+        i + run < titleTokens.length &&
+        j + run < queryTerms.length &&
+        titleTokens[i + run] === queryTerms[j + run]
+      ) {
+        run++;
+      }
+      best = Math.max(best, run);
+    }
+  }
+  return best;
+};
+
+export const searchIndex = (
+  index: SearchIndex,
+  query: string,
+  expansions: string[] = [],
+): SearchHit[] => {
+  const typed = tokenize(query)
+    .map((word) => resolveTerm(index, word))
+    .filter((term): term is ResolvedTerm => term !== null);
+  const expanded = expansions
+    .flatMap(tokenize)
+    .map((word) => ({ word, stem: stem(word), weight: 1 }))
+    .filter((term) => index.postings.has(term.stem));
+  const resolved = [...typed, ...expanded];
+  const queryTerms = typed.map((term) => term.stem);
+  const uniqueTerms = [...new Set(resolved.map((term) => term.stem))];
+  const normalizedQuery = normalizeText(query);
+  const total = index.docs.length;
+
+  const fuzzyWords = new Set(
+    typed.filter((term) => term.weight < 1).map((term) => term.word),
+  );
+  const synonymWords = new Set(
+    expanded
+      .map((term) => term.word)
+      .filter((word) => !typed.some((term) => term.word === word)),
+  );
+
+  // Bobot dan kata asli per stem; kata yang cocok persis mengalahkan salah ketik
+  const termWeights = new Map<string, number>();
+  const termWords = new Map<string, string[]>();
+  for (const { word, stem: term, weight } of resolved) {
+    termWeights.set(term, Math.max(termWeights.get(term) ?? 0, weight));
+    termWords.set(term, [...(termWords.get(term) ?? []), word]);
+  }
+
+  // Per dokumen: frekuensi kata berbobot dan ternormalisasi panjang, per field
+  const partials = new Map<number, Map<string, Record<SearchField, number>>>();
+  for (const term of uniqueTerms) {
+    for (const posting of index.postings.get(term) ?? []) {
+      const { lengths } = index.docs[posting.doc];
+      const weighted = { title: 0, category: 0, description: 0 };
+      for (const field of FIELDS) {
+        const norm =
+          1 - B[field] + (B[field] * lengths[field]) / index.avgLengths[field];
+        weighted[field] = (FIELD_WEIGHTS[field] * posting.tf[field]) / norm;
+      }
+      if (!partials.has(posting.doc)) partials.set(posting.doc, new Map());
+      partials.get(posting.doc).set(term, weighted);
+    }
+  }
+
+  const hits: SearchHit[] = [];
+  for (const [docId, terms] of partials) {
+    const doc = index.docs[docId];
+    const fieldScores: Record<SearchField, number> = {
+      title: 0,
+      category: 0,
+      description: 0,
+    };
+    let bm25 = 0;
+
+    for (const [term, weighted] of terms) {
+      const tf = FIELDS.reduce((sum, field) => sum + weighted[field], 0);
+      const df = index.postings.get(term).length;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const termScore =
+        (termWeights.get(term) * idf * tf * (K1 + 1)) / (tf + K1);
+      bm25 += termScore;
+
+      // Skor kata dibagi ke field sesuai porsinya, untuk penjelasan peringkat
+      for (const field of FIELDS) {
+        fieldScores[field] += (termScore * weighted[field]) / tf;
+      }
+    }
+
+    const contiguousRun = longestRun(queryTerms, doc.titleTokens);
+    const titleTerms = uniqueTerms.filter((term) =>
+      doc.titleTokens.includes(term),
+    );
+    const titleMatch: TitleMatch =
+      doc.normalizedTitle === normalizedQuery
+        ? "exact"
+        : queryTerms.length > 1 && contiguousRun === queryTerms.length
+          ? "phrase"
+          : titleTerms.length > 0
+            ? "term"
+            : "none";
+
+    const contiguousBonus =
+      contiguousRun > 1 ? CONTIGUOUS_BONUS * (contiguousRun - 1) : 0;
+    const matchedTerms = [
+      ...new Set([...terms.keys()].flatMap((term) => termWords.get(term))),
+    ];
+    hits.push({
+      item: doc.item,
+      score: bm25 + contiguousBonus,
+      fieldScores,
+      matchedTerms,
+      fuzzyTerms: matchedTerms.filter((word) => fuzzyWords.has(word)),
+      synonymTerms: matchedTerms.filter((word) => synonymWords.has(word)),
+      contiguousRun,
+      contiguousBonus,
+      titleMatch,
+    });
+  }
+
+  return hits.sort(
+    (a, b) =>
+      TITLE_MATCH_RANK[b.titleMatch] - TITLE_MATCH_RANK[a.titleMatch] ||
+      b.score - a.score,
+  );
+};
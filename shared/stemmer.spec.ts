@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { stem } from "./stemmer";
+
+describe("stem", () => {
+  it("should map derived words and their base to the same stem", () => {
+    expect(stem("kependudukan")).toBe(stem("penduduk"));
+    expect(stem("pengangguran")).toBe(stem("menganggur"));
+    expect(stem("pekerjaan")).toBe(stem("bekerja"));
+    expect(stem("pertanian")).toBe(stem("petani"));
+    expect(stem("perusahaan")).toBe("usaha");
+    expect(stem("bulanan")).toBe(stem("bulan"));
+  });
+
+  it("should apply nasal assimilation of me(N)- and pe(N)-", () => {
+    expect(stem("penyakit")).toBe("sakit");
+    expect(stem("meninggal")).toBe("tinggal");
+    expect(stem("pemakaian")).toBe("pakai");
+    expect(stem("penumpang")).toBe("tumpang");
+  });
+
+  it("should only strip -kan from verbs", () => {
+    expect(stem("ditamatkan")).toBe("tamat");
+    expect(stem("pendidikan")).toBe("didik");
+  });
+
+  it("should never cut a word below four letters", () => {
+    expect(stem("bulan")).toBe("bulan");
+    expect(stem("berat")).toBe("berat");
+    expect(stem("kerja")).toBe("kerja");
+    expect(stem("ipm")).toBe("ipm");
+    expect(stem("sp2020")).toBe("sp2020");
+  });
+});
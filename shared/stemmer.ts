@@ -0,0 +1,78 @@
+// Stemmer bahasa Indonesia berbasis aturan (turunan Nazief–Adriani tanpa kamus
+// kata dasar). Karena tidak ada kamus, aturannya dipilih agar konsisten: bentuk
+// turunan dan kata dasarnya menghasilkan stem yang sama, meskipun stem itu
+// sendiri tidak selalu kata dasar yang benar ("kependudukan" dan "penduduk"
+// sama-sama menjadi "duduk"). Stemmer yang sama dipakai untuk indeks dan kueri.
+//
+// Urutan: akhiran posesif -nya, akhiran -kan (hanya untuk kata kerja ber-
+// awalan di-/me-/ber-/ter-) atau -an, lalu hingga dua awalan (me-, pe-, ber-,
+// ter-, per-, di-, ke-) dengan peluluhan me(N)-/pe(N)-. Akhiran -i dan partikel
+// -lah/-kah tidak dibuang karena terlalu sering merusak kata dasar
+// ("industri", "sekolah"). Stem tidak pernah lebih pendek dari 4 huruf.
+
+const MIN_STEM = 4;
+
+const VERB_PREFIX = /^(di|me|ber|ter)/;
+
+const stripSuffix = (word: string): string => {
+  if (word.endsWith("nya") && word.length - 3 >= MIN_STEM) {
+    word = word.slice(0, -3);
+  }
+  if (
+    word.endsWith("kan") &&
+    VERB_PREFIX.test(word) &&
+    word.length - 3 >= MIN_STEM
+  ) {
+    return word.slice(0, -3);
+  }
+  if (word.endsWith("an") && word.length - 2 >= MIN_STEM) {
+    return word.slice(0, -2);
+  }
+  return word;
+};
+
+// Pasangan [awalan, pengganti huruf awal kata dasar] untuk me(N)- dan pe(N)-,
+// mis. "menanam" -> "tanam", "penyakit" -> "sakit", "memakai" -> "pakai"
+const nasalRules = (head: "me" | "pe"): [RegExp, string][] => [
+  [new RegExp(`^${head}ng(?=[aiueo])`), ""],
+  [new RegExp(`^${head}ng(?=[ghk])`), ""],
+  [new RegExp(`^${head}ny(?=[aiueo])`), "s"],
+  [new RegExp(`^${head}m(?=[aiueo])`), "p"],
+  [new RegExp(`^${head}m(?=[bfpv])`), ""],
+  [new RegExp(`^${head}n(?=[aiueo])`), "t"],
+  [new RegExp(`^${head}n(?=[cdjstz])`), ""],
+];
+
+const PREFIX_RULES: [RegExp, string][] = [
+  ...nasalRules("me"),
+  ...nasalRules("pe"),
+  [/^me(?=[lrwy])/, ""],
+  [/^per/, ""],
+  [/^pe(?=[^aiueo])/, ""],
+  [/^ber/, ""],
+  [/^be(?=ker)/, ""],
+  [/^ter/, ""],
+  [/^di/, ""],
+  [/^ke/, ""],
+];
+
+const stripPrefix = (word: string): string => {
+  for (const [pattern, replacement] of PREFIX_RULES) {
+    if (!pattern.test(word)) continue;
+    const stem = word.replace(pattern, replacement);
+    if (stem.length >= MIN_STEM) return stem;
+  }
+  return word;
+};
+
+export const stem = (word: string): string => {
+  if (word.length <= MIN_STEM || /\d/.test(word)) return word;
+
+  let result = stripSuffix(word);
+  for (let i = 0; i < 2; i++) {
+    const next = stripPrefix(result);
+    if (next === result) break;
+    result = next;
+  }
+  return result;
+};
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { parseCsvToItems, searchCatalog } from "./catalog";
+import {
+  matchSynonyms,
+  searchSynonymSubjects,
+  validateSynonyms,
+  type SynonymEntry,
+} from "./synonyms";
+import { catalogItem } from "./testing/catalog";
+
+const ENTRIES: SynonymEntry[] = [
+  {
+    canonical: "produk domestik regional bruto",
+    aliases: ["pdrb", "produk domestik bruto"],
+    subjects: [531],
+  },
+  { canonical: "tenaga kerja", aliases: ["kerja"], subjects: [520] },
+  { canonical: "upah minimum", aliases: ["umk"], subjects: [520] },
+];
+
+const item = (subject_id: number, title: string) =>
+  catalogItem(title, {
+    category: "Statistik Ekonomi",
+    subject_id,
+    url: `https://example.test/${subject_id}/${encodeURIComponent(title)}`,
+    description: "",
+  });
+
+describe("matchSynonyms", () => {
+  it("should expand abbreviations to their canonical terms", () => {
+    expect(matchSynonyms("PDRB Kota Medan 2020", ENTRIES)).toEqual({
+      expansions: ["produk domestik regional bruto"],
+      subjects: [531],
+    });
+  });
+
+  it("should only match whole words", () => {
+    expect(matchSynonyms("jumlah pekerjaan", ENTRIES).subjects).toEqual([]);
+    expect(matchSynonyms("penduduk bekerja", ENTRIES).subjects).toEqual([]);
+    expect(matchSynonyms("angkatan kerja", ENTRIES).subjects).toEqual([520]);
+  });
+
+  it("should not repeat a canonical term already in the query", () => {
+    const match = matchSynonyms("produk domestik regional bruto", ENTRIES);
+
+    expect(match.expansions).toEqual([]);
+    expect(match.subjects).toEqual([531]);
+  });
+});
+
+describe("validateSynonyms", () => {
+  it("should drop subjects missing from the catalogue and reused aliases", () => {
+    const { entries, issues } = validateSynonyms(
+      [
+        ...ENTRIES,
+        { canonical: "ekonomi", aliases: ["PDRB", "makro"], subjects: [530] },
+      ],
+      [item(531, "PDRB, 2010 - 2024")],
+    );
+
+    expect(entries.map((entry) => entry.subjects)).toEqual([[531], [], [], []]);
+    expect(entries[3].aliases).toEqual(["makro"]);
+    expect(issues).toEqual([
+      { entry: 1, message: "Subject 520 has no tables in the catalogue" },
+      { entry: 2, message: "Subject 520 has no tables in the catalogue" },
+      { entry: 3, message: 'Alias "PDRB" already used by entry 0' },
+      { entry: 3, message: "Subject 530 has no tables in the catalogue" },
+    ]);
+  });
+});
+
+describe("synonyms with the CSV catalogue", () => {
+  const items = parseCsvToItems(
+    readFileSync(
+      path.resolve(__dirname, "../data/catalog/data fix.csv"),
+      "utf8",
+    ),
+  );
+  const { entries } = validateSynonyms(
+    JSON.parse(
+      readFileSync(
+        path.resolve(__dirname, "../data/catalog/synonyms.json"),
+        "utf8",
+      ),
+    ).entries,
+    items,
+  );
+
+  it("should rank tables that spell out an abbreviation", () => {
+    const [first] = searchCatalog(items, "ipm", entries);
+
+    expect(first.title).toMatch(/Indeks Pembangunan Manusia/);
+  });
+
+  it("should fall back to the subjects of matching entries", () => {
+    const results = searchSynonymSubjects(items, "berapa umk medan", entries);
+
+    expect(results.length).toBeGreaterThan(0);
+    results.forEach((result) => expect(result.subject_id).toBe(520));
+  });
+
+  it("should not send ordinary words to an unrelated subject", () => {
+    const question = "jumlah penduduk laki-laki Medan Johor 2023";
+    const top = searchCatalog(items, question, entries).slice(0, 4);
+
+    // Only "penduduk" itself matches; "laki-laki" no longer means gender
+    expect(matchSynonyms(question, entries).subjects).toEqual([519]);
+    top.forEach((item) => expect(item.subject_id).toBe(519));
+    expect(top.map((item) => item.title)).toContain(
+      "Jumlah Penduduk Kota Medan Menurut Kecamatan dan Jenis Kelamin (Jiwa), 2001 - 2024",
+    );
+  });
+});
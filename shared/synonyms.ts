@@ -0,0 +1,128 @@
+// Kamus sinonim dan singkatan (PDRB, IPM, TPT, ...) dari
+// data/catalog/synonyms.json. Kueri yang memuat alias diperluas dengan istilah
+// kanoniknya sebelum diperingkat, dan subjek entri yang cocok menjadi cadangan
+// jika pencarian kata tidak menemukan apa pun. Alias dicocokkan per kata utuh,
+// jadi "kerja" tidak ikut cocok di dalam "pekerjaan" atau "bekerja".
+import type { BPSDataItem } from "./catalog";
+import { normalizeText } from "./search";
+
+export interface SynonymEntry {
+  /** Istilah seperti yang dipakai judul tabel BPS */
+  canonical: string;
+  /** Singkatan atau sebutan lain yang diperluas menjadi `canonical` */
+  aliases: string[];
+  /** Subjek BPS yang relevan, dipakai jika pencarian kata tidak menemukan apa pun */
+  subjects?: number[];
+}
+
+/** Masalah pada kamus sinonim; `entry` adalah indeks entri (mulai dari 0) */
+export interface SynonymIssue {
+  entry?: number;
+  message: string;
+}
+
+export interface SynonymMatch {
+  /** Istilah kanonik yang ditambahkan ke kueri */
+  expansions: string[];
+  /** Subjek dari entri yang cocok, urut sesuai kemunculan */
+  subjects: number[];
+}
+
+const words = (text: string): string[] =>
+  normalizeText(text).split(" ").filter(Boolean);
+
+// Apakah `phrase` muncul sebagai deretan kata utuh di `haystack`
+const containsPhrase = (haystack: string[], phrase: string[]): boolean => {
+  if (phrase.length === 0) return false;
+  for (let i = 0; i + phrase.length <= haystack.length; i++) {
+    if (phrase.every((word, j) => haystack[i + j] === word)) return true;
+  }
+  return false;
+};
+
+// Membuang subjek yang tidak ada di katalog dan alias yang sudah dipakai entri
+// lain, lalu melaporkannya; entri tanpa alias tersisa dibuang
+export const validateSynonyms = (
+  entries: SynonymEntry[],
+  items: BPSDataItem[],
+): { entries: SynonymEntry[]; issues: SynonymIssue[] } => {
+  const subjectIds = new Set(items.map((item) => item.subject_id));
+  const seenAliases = new Map<string, number>();
+  const valid: SynonymEntry[] = [];
+  const issues: SynonymIssue[] = [];
+
+  entries.forEach((entry, index) => {
+    const aliases = entry.aliases.filter((alias) => {
+      const key = words(alias).join(" ");
+      const owner = seenAliases.get(key);
+      if (!key) {
+        issues.push({ entry: index, message: `Empty alias "${alias}"` });
+        return false;
+      }
+      if (owner !== undefined) {
+        issues.push({
+          entry: index,
+          message: `Alias "${alias}" already used by entry ${owner}`,
+        });
+        return false;
+      }
+      seenAliases.set(key, index);
+      return true;
+    });
+
+    const subjects = (entry.subjects ?? []).filter((id) => {
+      if (subjectIds.has(id)) return true;
+      issues.push({
+        entry: index,
+        message: `Subject ${id} has no tables in the catalogue`,
+      });
+      return false;
+    });
+
+    if (aliases.length === 0) {
+      issues.push({ entry: index, message: "No usable aliases" });
+      return;
+    }
+    valid.push({ ...entry, aliases, subjects });
+  });
+
+  return { entries: valid, issues };
+};
+
+// Entri yang alias atau istilah kanoniknya muncul utuh di kueri
+export const matchSynonyms = (
+  query: string,
+  entries: SynonymEntry[],
+): SynonymMatch => {
+  const queryWords = words(query);
+  const expansions: string[] = [];
+  const subjects = new Set<number>();
+
+  for (const entry of entries) {
+    const canonical = words(entry.canonical);
+    const aliased = entry.aliases.some((alias) =>
+      containsPhrase(queryWords, words(alias)),
+    );
+    if (!aliased && !containsPhrase(queryWords, canonical)) continue;
+
+    if (aliased && !containsPhrase(queryWords, canonical)) {
+      expansions.push(entry.canonical);
+    }
+    entry.subjects?.forEach((id) => subjects.add(id));
+  }
+
+  return { expansions, subjects: [...subjects] };
+};
+
+// Tabel dari subjek entri yang cocok, urut sesuai urutan subjek; pengganti
+// pencocokan kata kunci lama saat pencarian kata tidak menemukan apa pun
+export const searchSynonymSubjects = (
+  items: BPSDataItem[],
+  query: string,
+  entries: SynonymEntry[],
+): BPSDataItem[] => {
+  const { subjects } = matchSynonyms(query, entries);
+  return subjects.flatMap((id) =>
+    items.filter((item) => item.subject_id === id),
+  );
+};
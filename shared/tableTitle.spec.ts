@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchesConstraints,
+  parseQueryConstraints,
+  parseTableTitle,
+} from "./tableTitle";
+
+describe("parseTableTitle", () => {
+  it("should split measure, breakdowns, unit and year range", () => {
+    expect(
+      parseTableTitle(
+        "Jumlah Penduduk Kota Medan Menurut Kelompok Umur dan Jenis Kelamin (Jiwa), 2010 - 2024",
+      ),
+    ).toEqual({
+      measure: "Jumlah Penduduk",
+      dimensions: ["Kelompok Umur", "Jenis Kelamin"],
+      unit: "Jiwa",
+      startYear: 2010,
+      endYear: 2024,
+    });
+  });
+
+  it("should keep abbreviations in the measure and read a single year", () => {
+    expect(
+      parseTableTitle(
+        "Jumlah Tenaga Kesehatan Menurut Kecamatan di Kota Medan, 2018",
+      ),
+    ).toMatchObject({
+      measure: "Jumlah Tenaga Kesehatan",
+      dimensions: ["Kecamatan"],
+      unit: null,
+      startYear: 2018,
+      endYear: 2018,
+    });
+    expect(
+      parseTableTitle("Tingkat Pengangguran Terbuka (TPT), 2014 - 2024"),
+    ).toMatchObject({
+      measure: "Tingkat Pengangguran Terbuka (TPT)",
+      unit: null,
+    });
+  });
+
+  it("should handle 'Tahun' ranges with a trailing unit", () => {
+    expect(
+      parseTableTitle(
+        "Nilai Output Industri Besar Sedang Kota Medan Dirinci Menurut Kecamatan 2010 – 2015 (juta rupiah)",
+      ),
+    ).toEqual({
+      measure: "Nilai Output Industri Besar Sedang",
+      dimensions: ["Kecamatan"],
+      unit: "juta rupiah",
+      startYear: 2010,
+      endYear: 2015,
+    });
+  });
+
+  it("should leave the years empty when the title has none", () => {
+    expect(parseTableTitle("Luas Wilayah (km2)")).toEqual({
+      measure: "Luas Wilayah",
+      dimensions: [],
+      unit: "km2",
+      startYear: null,
+      endYear: null,
+    });
+  });
+});
+
+describe("parseQueryConstraints", () => {
+  it("should read years and breakdowns from a question", () => {
+    expect(parseQueryConstraints("jumlah penduduk per kecamatan 2015")).toEqual(
+      {
+        text: "jumlah penduduk per kecamatan",
+        startYear: 2015,
+        endYear: 2015,
+        breakdowns: [["kecamatan"]],
+      },
+    );
+    expect(
+      parseQueryConstraints("penduduk menurut jenis kelamin 2010 sampai 2020"),
+    ).toMatchObject({
+      startYear: 2010,
+      endYear: 2020,
+      breakdowns: [["jenis", "kelamin"]],
+    });
+  });
+
+  it("should not treat 'per kapita' as a breakdown", () => {
+    expect(parseQueryConstraints("pengeluaran per kapita").breakdowns).toEqual(
+      [],
+    );
+  });
+});
+
+describe("matchesConstraints", () => {
+  const info = parseTableTitle(
+    "Jumlah Penduduk Kota Medan Menurut Kecamatan dan Jenis Kelamin (Jiwa), 2001 - 2024",
+  );
+
+  it("should require the year range to be covered", () => {
+    expect(
+      matchesConstraints(info, parseQueryConstraints("penduduk 2015")),
+    ).toBe(true);
+    expect(
+      matchesConstraints(info, parseQueryConstraints("penduduk 1995")),
+    ).toBe(false);
+  });
+
+  it("should require every requested breakdown", () => {
+    expect(
+      matchesConstraints(info, parseQueryConstraints("penduduk per kecamatan")),
+    ).toBe(true);
+    expect(
+      matchesConstraints(
+        info,
+        parseQueryConstraints("penduduk per kelompok umur"),
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+// Judul tabel BPS mengikuti pola yang konsisten, misalnya
+// "Jumlah Penduduk Kota Medan Menurut Kelompok Umur dan Jenis Kelamin (Jiwa), 2010 - 2024".
+// Modul ini memecah judul tersebut menjadi ukuran, dimensi rincian, satuan dan
+// cakupan tahun, serta membaca batasan serupa dari pertanyaan pengguna.
+
+export interface TableTitleInfo {
+  /** Apa yang diukur, tanpa wilayah, rincian, satuan dan tahun */
+  measure: string;
+  /** Dimensi rincian dari frasa "Menurut ...", mis. ["Kecamatan", "Jenis Kelamin"] */
+  dimensions: string[];
+  /** Satuan di dalam kurung, mis. "Persen" atau "Milyar Rupiah" */
+  unit: string | null;
+  startYear: number | null;
+  endYear: number | null;
+}
+
+export interface QueryConstraints {
+  /** Pertanyaan tanpa angka tahun, untuk pencocokan kata */
+  text: string;
+  startYear: number | null;
+  endYear: number | null;
+  /** Kata rincian yang diminta, mis. [["kecamatan"], ["kelompok", "umur"]] */
+  breakdowns: string[][];
+}
+
+// Tahun di akhir judul: "2015", "2010 - 2024", "2010, 2014, dan 2015" atau
+// "2001/2002-2017/2018", boleh diikuti satuan dalam kurung
+const YEAR_TAIL =
+  /(?:\btahun\s*)?\b(\d{4}(?:\/\d{4})?(?:\s*(?:[-–‒−,]|dan|sampai)\s*\d{4}(?:\/\d{4})?)*)\s*((?:\([^)]*\)\s*)*)$/i;
+
+const UNIT_PATTERN =
+  /^(?:persen|%|jiwa|ribu jiwa|orang|rumah tangga|rt|hari|jam|tahun|mm|km2?|ha|ribu ha|ton|ribu ton|unit|mwh|ribu|(?:ribu |juta |milyar |miliar )?rupiah(?:\/[\w/]+)?|dalam rp\.?[\d.]+)$/i;
+
+const LOCATION_SUFFIX =
+  /\s+(?:di\s+medan|(?:di\s+)?(?:kota medan|provinsi sumatera utara))\b.*$/i;
+
+const isYear = (value: number) => value >= 1900 && value <= 2100;
+
+const cleanText = (text: string) =>
+  text
+    .replace(/\u00a0/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const findUnit = (groups: string[]): string | null => {
+  for (let i = groups.length - 1; i >= 0; i--) {
+    if (UNIT_PATTERN.test(groups[i].trim())) return groups[i].trim();
+  }
+  return null;
+};
+
+const parenGroups = (text: string) =>
+  [...text.matchAll(/\(([^)]*)\)/g)].map((m) => m[1]);
+
+const cleanDimension = (text: string) =>
+  cleanText(
+    text
+      .replace(/\([^)]*\)/g, " ")
+      .replace(LOCATION_SUFFIX, "")
+      .replace(/\s+atas dasar harga\b.*$/i, "")
+      .replace(/\s+tahun\b.*$/i, "")
+      .replace(/\s+\d{4}\b.*$/, ""),
+  );
+
+export const parseTableTitle = (title: string): TableTitleInfo => {
+  let rest = cleanText(title);
+  let startYear: number | null = null;
+  let endYear: number | null = null;
+  let unit: string | null = null;
+
+  const tail = rest.match(YEAR_TAIL);
+  const years = tail ? tail[1].match(/\d{4}/g).map(Number).filter(isYear) : [];
+  if (years.length > 0) {
+    startYear = Math.min(...years);
+    endYear = Math.max(...years);
+    unit = findUnit(parenGroups(tail[2]));
+    rest = rest.slice(0, tail.index).replace(/[\s,]+$/, "");
+  }
+
+  // Satuan biasanya berada tepat sebelum tahun, mis. "(Persen), 2010 - 2024"
+  unit = unit ?? findUnit(parenGroups(rest));
+  if (unit) {
+    rest = cleanText(rest.split(`(${unit})`).join(" ")).replace(/[\s,]+$/, "");
+  }
+
+  const [measurePart, ...breakdownParts] = rest.split(/(?:\s+menurut)+\s+/i);
+  const dimensions = breakdownParts
+    .flatMap((part) => cleanDimension(part).split(/\s*,\s*|\s+dan\s+/i))
+    .map((dimension) => dimension.trim())
+    .filter(Boolean);
+
+  const measure = cleanText(
+    measurePart.replace(LOCATION_SUFFIX, "").replace(/\s+dirinci$/i, ""),
+  ).replace(/[\s,]+$/, "");
+
+  return { measure, dimensions, unit, startYear, endYear };
+};
+
+// Kata setelah "per"/"menurut" yang bukan rincian tabel
+const NON_BREAKDOWN_WORDS = new Set(["kapita", "di", "dan", "kota", "medan"]);
+
+// Rincian dua kata seperti "jenis kelamin" atau "kelompok umur"
+const GENERIC_HEADS = new Set([
+  "jenis",
+  "kelompok",
+  "lapangan",
+  "status",
+  "tingkat",
+  "golongan",
+  "kelas",
+]);
+
+const BREAKDOWN_PHRASE =
+  /\b(?:per|menurut|tiap|setiap|masing-masing)\s+([a-z/]+)(?:\s+([a-z/]+))?/g;
+
+export const parseQueryConstraints = (query: string): QueryConstraints => {
+  const lower = query.toLowerCase();
+
+  const years = [...lower.matchAll(/\b(\d{4})\b/g)]
+    .map((m) => Number(m[1]))
+    .filter(isYear);
+
+  const breakdowns = [...lower.matchAll(BREAKDOWN_PHRASE)]
+    .filter((m) => !NON_BREAKDOWN_WORDS.has(m[1]))
+    .map((m) => (GENERIC_HEADS.has(m[1]) && m[2] ? [m[1], m[2]] : [m[1]]));
+
+  return {
+    text: cleanText(query.replace(/\b\d{4}\b/g, " ")),
+    startYear: years.length > 0 ? Math.min(...years) : null,
+    endYear: years.length > 0 ? Math.max(...years) : null,
+    breakdowns,
+  };
+};
+
+export const hasConstraints = (constraints: QueryConstraints): boolean =>
+  constraints.startYear !== null || constraints.breakdowns.length > 0;
+
+// Tabel memenuhi batasan jika cakupan tahunnya meliputi tahun yang diminta dan
+// setiap rincian yang diminta ada di dimensinya
+export const matchesConstraints = (
+  info: TableTitleInfo,
+  constraints: QueryConstraints,
+): boolean => {
+  if (constraints.startYear !== null) {
+    if (info.startYear === null) return false;
+    if (
+      constraints.startYear < info.startYear ||
+      constraints.endYear > info.endYear
+    ) {
+      return false;
+    }
+  }
+
+  const dimensionWords = info.dimensions.map((dimension) =>
+    dimension.toLowerCase().split(/[\s/]+/),
+  );
+  return constraints.breakdowns.every((words) =>
+    dimensionWords.some((dimension) =>
+      words.every((word) => dimension.includes(word)),
+    ),
+  );
+};
@@ -0,0 +1,19 @@
+import type { BPSDataItem } from "../catalog";
+
+/**
+ * Catalogue table for specs: a Kependudukan dan Migrasi table (subject 519)
+ * with a URL derived from its title, so distinct titles stay distinct
+ */
+export const catalogItem = (
+  title: string,
+  overrides: Partial<BPSDataItem> = {},
+): BPSDataItem => ({
+  category: "Statistik Demografi dan Sosial",
+  subject_id: 519,
+  url: `https://example.test/${encodeURIComponent(title)}`,
+  title,
+  description: "Kependudukan dan Migrasi",
+  scraped_at: "",
+  table_count: 1,
+  ...overrides,
+});